@@ -0,0 +1,433 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { createHash, createHmac } from 'crypto';
+import {
+  AuditConfig,
+  AuthenticatedPrincipal,
+  MemoryContext,
+  MemoryEvent,
+  MemorySearchResult,
+  MemoryQuery,
+  AccessGrant,
+  MemoryEventType,
+  MemoryProtocolError
+} from './types.js';
+import { DeletionReceipt } from './userData.js';
+import { EvictionNotice } from './retentionManager.js';
+import { ConsolidationResult } from './consolidator.js';
+
+export type AuditAction =
+  | 'store'
+  | 'retrieve'
+  | 'update'
+  | 'delete'
+  | 'createSession'
+  | 'closeSession'
+  | 'grantAccess'
+  | 'revokeAccess'
+  | 'authenticate'
+  | 'exportUser'
+  | 'forgetUser';
+
+export type AuditOutcome = 'success' | 'denied' | 'failure';
+
+/**
+ * One operation in the audit trail, chained to the entry before it by previousHash
+ */
+export interface AuditEntry {
+  sequence: number;
+  timestamp: Date;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  userId?: string;
+  agentId?: string;
+  sessionId?: string;
+  principal?: { userId: string; agentId?: string; method: AuthenticatedPrincipal['method'] }; // Who authenticated the session
+  memoryIds: string[];
+  query?: string;
+  reason?: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  userId?: string;
+  sessionId?: string;
+  memoryId?: string;
+  action?: AuditAction | AuditAction[];
+  outcome?: AuditOutcome;
+  offset?: number;
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number; // Entries checked
+  brokenAt?: number; // Sequence of the first entry that does not match the chain
+  reason?: string;
+}
+
+/**
+ * What the audit log needs from the protocol
+ */
+export interface AuditHost {
+  principalOf(sessionId: string): AuthenticatedPrincipal | undefined;
+  onError(error: Error): void;
+}
+
+type AuditRecord = Omit<AuditEntry, 'sequence' | 'timestamp' | 'principal' | 'previousHash' | 'hash'>;
+
+// Payloads of the protocol events the audit log records, by event name
+interface AuditedEvents {
+  memoryStored: MemoryEvent;
+  memoryMerged: { memoryId: string; context: MemoryContext };
+  memoryRetrieved: { query: MemoryQuery; results: MemorySearchResult; context: MemoryContext };
+  memoryUpdated: { memoryId: string; context: MemoryContext };
+  memoryDeleted: { memoryId: string; context: MemoryContext };
+  [MemoryEventType.EVICT]: EvictionNotice;
+  [MemoryEventType.CONSOLIDATE]: ConsolidationResult;
+  sessionCreated: { context: MemoryContext };
+  sessionClosed: { context: MemoryContext };
+  accessGranted: AccessGrant;
+  accessRevoked: { grants: AccessGrant[]; memoryIds?: string[] };
+  authorizationDenied: {
+    resource: string;
+    action: string;
+    sessionId?: string;
+    userId?: string;
+    agentId?: string;
+    memoryIds: string[];
+    reason: string;
+  };
+  userExported: { userId: string; memoryIds: string[]; sessionId?: string };
+  userForgotten: { receipt: DeletionReceipt; sessionId?: string };
+  authenticationFailed: { transport: string; clientId?: string; error: Error };
+}
+
+type AuditSubscription = {
+  [E in keyof AuditedEvents]: [E, (payload: AuditedEvents[E]) => void]
+}[keyof AuditedEvents];
+
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/**
+ * Tamper-evident audit trail built from the events MemoryProtocol emits
+ * Every entry carries the hash of the one before it, keyed with
+ * AuditConfig.key when set, so editing, removing or reordering entries
+ * breaks the chain from that point on. verify() finds the first break.
+ */
+export class AuditLog {
+  private file?: string;
+  private key?: string;
+  private maxEntries: number;
+  private recordQueries: boolean;
+  private host: AuditHost;
+
+  private entries: AuditEntry[] = [];
+  private sequence = 0;
+  private lastHash = GENESIS_HASH;
+  private writing: Promise<void> = Promise.resolve();
+  private source: EventEmitter | null = null;
+  private listeners: AuditSubscription[] = [];
+
+  constructor(config: AuditConfig, host: AuditHost) {
+    this.file = config.file;
+    this.key = config.key;
+    this.maxEntries = config.maxEntries || DEFAULT_MAX_ENTRIES;
+    this.recordQueries = config.recordQueries ?? true;
+    this.host = host;
+  }
+
+  /**
+   * Resume the chain from the log file, if any, and start recording the source's events
+   */
+  async start(source: EventEmitter): Promise<void> {
+    if (this.source) {
+      return;
+    }
+
+    if (this.file) {
+      const entries = await readEntries(this.file);
+      const last = entries[entries.length - 1];
+      if (last) {
+        this.sequence = last.sequence;
+        this.lastHash = last.hash;
+      }
+      this.entries = entries.slice(-this.maxEntries);
+    }
+
+    this.listeners = this.subscriptions();
+    for (const [event, listener] of this.listeners) {
+      source.on(event, listener);
+    }
+    this.source = source;
+  }
+
+  /**
+   * Stop recording and wait for entries still being written
+   */
+  async stop(): Promise<void> {
+    for (const [event, listener] of this.listeners) {
+      this.source?.off(event, listener);
+    }
+    this.listeners = [];
+    this.source = null;
+    await this.writing;
+  }
+
+  /**
+   * Entries kept in memory that match a query, oldest first
+   */
+  query(query: AuditQuery = {}): AuditEntry[] {
+    const actions = query.action === undefined ? null : new Set(Array.isArray(query.action) ? query.action : [query.action]);
+
+    const matches = this.entries.filter(entry =>
+      (!query.from || entry.timestamp >= query.from)
+      && (!query.to || entry.timestamp <= query.to)
+      && (query.userId === undefined || entry.userId === query.userId || entry.principal?.userId === query.userId)
+      && (query.sessionId === undefined || entry.sessionId === query.sessionId)
+      && (query.memoryId === undefined || entry.memoryIds.includes(query.memoryId))
+      && (!actions || actions.has(entry.action))
+      && (!query.outcome || entry.outcome === query.outcome)
+    );
+
+    const offset = query.offset || 0;
+    return matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  /**
+   * Matching entries as JSON Lines, one entry per line
+   */
+  exportJsonl(query: AuditQuery = {}): string {
+    return this.query(query).map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  /**
+   * Check the chain: the whole log file when there is one, otherwise the entries in memory
+   */
+  async verify(): Promise<AuditVerification> {
+    if (!this.file) {
+      return verifyAuditChain(this.entries, this.key);
+    }
+
+    await this.writing;
+    return verifyAuditChain(await readEntries(this.file), this.key, GENESIS_HASH);
+  }
+
+  // Private helper methods
+
+  private record(record: AuditRecord): void {
+    const principal = record.sessionId ? this.host.principalOf(record.sessionId) : undefined;
+
+    const unsigned = {
+      sequence: ++this.sequence,
+      timestamp: new Date(),
+      ...record,
+      ...(principal ? {
+        principal: {
+          userId: principal.userId,
+          ...(principal.agentId !== undefined ? { agentId: principal.agentId } : {}),
+          method: principal.method
+        }
+      } : {}),
+      previousHash: this.lastHash
+    };
+    const entry: AuditEntry = { ...unsigned, hash: chainHash(unsigned, this.key) };
+    this.lastHash = entry.hash;
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    if (this.file) {
+      const file = this.file;
+      this.writing = this.writing
+        .then(() => fs.appendFile(file, `${JSON.stringify(entry)}\n`))
+        .catch(error => this.host.onError(error));
+    }
+  }
+
+  private subscriptions(): AuditSubscription[] {
+    const caller = (context: Partial<MemoryContext> | undefined) => ({
+      ...(context?.userId !== undefined ? { userId: context.userId } : {}),
+      ...(context?.agentId !== undefined ? { agentId: context.agentId } : {}),
+      ...(context?.sessionId !== undefined ? { sessionId: context.sessionId } : {})
+    });
+
+    return [
+      on('memoryStored', (event) => this.record({
+        action: 'store', outcome: 'success', ...caller(event.context), memoryIds: [event.id]
+      })),
+      on('memoryMerged', ({ memoryId, context }) => this.record({
+        action: 'store', outcome: 'success', ...caller(context), memoryIds: [memoryId], reason: 'Merged into a similar memory'
+      })),
+      on('memoryRetrieved', ({ query, results, context }) => this.record({
+        action: 'retrieve',
+        outcome: 'success',
+        ...caller(context),
+        memoryIds: results.memories.map(memory => memory.id),
+        ...(this.recordQueries ? { query: query.query } : {})
+      })),
+      on('memoryUpdated', ({ memoryId, context }) => this.record({
+        action: 'update', outcome: 'success', ...caller(context), memoryIds: [memoryId]
+      })),
+      on('memoryDeleted', ({ memoryId, context }) => this.record({
+        action: 'delete', outcome: 'success', ...caller(context), memoryIds: [memoryId]
+      })),
+      // Deletions and moves the protocol makes itself have no caller
+      on(MemoryEventType.EVICT, (notice) => this.record(notice.action === 'evict'
+        ? { action: 'delete', outcome: 'success', memoryIds: [notice.memoryId], reason: `Expired (${notice.reason})` }
+        : { action: 'update', outcome: 'success', memoryIds: [notice.memoryId], reason: `Expired (${notice.reason}), demoted to ${notice.storageTier}` }
+      )),
+      on(MemoryEventType.CONSOLIDATE, ({ before, after, backend }) => {
+        const absorbed = before.filter(id => !after.includes(id));
+        if (absorbed.length > 0) {
+          this.record({
+            action: 'delete',
+            outcome: 'success',
+            memoryIds: absorbed,
+            reason: `Consolidated into ${after.join(', ')} (backend ${backend})`
+          });
+        }
+      }),
+      on('sessionCreated', ({ context }) => this.record({
+        action: 'createSession', outcome: 'success', ...caller(context), memoryIds: []
+      })),
+      on('sessionClosed', ({ context }) => this.record({
+        action: 'closeSession', outcome: 'success', ...caller(context), memoryIds: []
+      })),
+      on('accessGranted', (grant) => this.record({
+        action: 'grantAccess',
+        outcome: 'success',
+        ...caller(grant.owner),
+        memoryIds: grant.memoryIds || [],
+        reason: `Granted ${grant.permission} to ${describe(grant.grantee)}`
+      })),
+      on('accessRevoked', ({ grants, memoryIds }) => this.record({
+        action: 'revokeAccess',
+        outcome: 'success',
+        ...caller(grants[0]?.owner),
+        memoryIds: memoryIds || [],
+        reason: `Revoked access of ${grants.map(grant => describe(grant.grantee)).join(', ')}`
+      })),
+      on('authorizationDenied', (denial) => this.record({
+        action: deniedAction(denial.resource, denial.action),
+        outcome: 'denied',
+        ...caller(denial),
+        memoryIds: denial.memoryIds,
+        reason: denial.reason
+      })),
+      on('userExported', ({ userId, memoryIds, sessionId }) => this.record({
+        action: 'exportUser', outcome: 'success', userId, ...(sessionId !== undefined ? { sessionId } : {}), memoryIds
+      })),
+      on('userForgotten', ({ receipt, sessionId }) => this.record({
+        action: 'forgetUser',
+        outcome: receipt.complete ? 'success' : 'failure',
+        userId: receipt.userId,
+        ...(sessionId !== undefined ? { sessionId } : {}),
+        memoryIds: receipt.memoryIds,
+        reason: `Receipt ${receipt.receiptId}`
+      })),
+      on('authenticationFailed', ({ transport, clientId, error }) => this.record({
+        action: 'authenticate',
+        outcome: 'failure',
+        memoryIds: [],
+        reason: `${error.message} (transport ${transport}${clientId ? `, client ${clientId}` : ''})`
+      }))
+    ];
+  }
+}
+
+/**
+ * Check that entries, e.g. parsed from an exported JSON Lines file, form an unbroken chain
+ * @param previousHash Hash the first entry must follow; by default the first entry is trusted
+ */
+export function verifyAuditChain(entries: AuditEntry[], key?: string, previousHash?: string): AuditVerification {
+  let expected = previousHash ?? entries[0]?.previousHash;
+
+  for (let index = 0; index < entries.length; index++) {
+    const { hash, ...unsigned } = entries[index];
+    const broken = (reason: string): AuditVerification => ({ valid: false, entries: index, brokenAt: unsigned.sequence, reason });
+
+    if (unsigned.previousHash !== expected) {
+      return broken('Entry does not follow the previous entry');
+    }
+    if (index > 0 && unsigned.sequence !== entries[index - 1].sequence + 1) {
+      return broken('Entries are missing or out of order');
+    }
+    if (chainHash(unsigned, key) !== hash) {
+      return broken('Entry has been modified');
+    }
+    expected = hash;
+  }
+
+  return { valid: true, entries: entries.length };
+}
+
+// Hash over the entry's fields in a fixed order, so entries read back from JSON verify the same
+function chainHash(entry: Omit<AuditEntry, 'hash'>, key?: string): string {
+  const timestamp = entry.timestamp instanceof Date && !isNaN(entry.timestamp.getTime())
+    ? entry.timestamp.toISOString()
+    : String(entry.timestamp);
+  const canonical = JSON.stringify([
+    entry.sequence,
+    timestamp,
+    entry.action,
+    entry.outcome,
+    entry.userId ?? null,
+    entry.agentId ?? null,
+    entry.sessionId ?? null,
+    entry.principal ? [entry.principal.userId, entry.principal.agentId ?? null, entry.principal.method] : null,
+    entry.memoryIds,
+    entry.query ?? null,
+    entry.reason ?? null,
+    entry.previousHash
+  ]);
+
+  return (key ? createHmac('sha256', key) : createHash('sha256')).update(canonical).digest('hex');
+}
+
+async function readEntries(file: string): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw new MemoryProtocolError(`Cannot read audit log ${file}: ${error.message}`, 500, { file });
+  }
+
+  return text.split('\n').filter(line => line.trim() !== '').map((line, index) => {
+    try {
+      const entry = JSON.parse(line);
+      return { ...entry, timestamp: new Date(entry.timestamp) };
+    } catch {
+      throw new MemoryProtocolError(`Audit log ${file} has a malformed entry on line ${index + 1}`, 500, { file, line: index + 1 });
+    }
+  });
+}
+
+function describe(namespace: { userId?: string; agentId?: string }): string {
+  return namespace.agentId !== undefined ? `${namespace.userId}/${namespace.agentId}` : `${namespace.userId}`;
+}
+
+function deniedAction(resource: string, action: string): AuditAction {
+  switch (resource) {
+    case 'session':
+      return action === 'create' ? 'createSession' : 'closeSession';
+    case 'user':
+      return action === 'forget' ? 'forgetUser' : 'exportUser';
+    default:
+      return action as AuditAction;
+  }
+}
+
+// Pairs an event with a listener typed by its payload
+function on<E extends keyof AuditedEvents>(event: E, listener: (payload: AuditedEvents[E]) => void): AuditSubscription {
+  return [event, listener] as AuditSubscription;
+}
@@ -0,0 +1,344 @@
+import { createHash, createHmac, timingSafeEqual, verify as verifySignature } from 'crypto';
+import {
+  AuthenticationConfig,
+  AuthenticatedPrincipal,
+  JwtAuthenticationOptions,
+  ApiKeyAuthenticationOptions,
+  ApiKeyEntry,
+  OAuthAuthenticationOptions,
+  IntrospectionResult,
+  TokenIntrospector,
+  RequestHeaders,
+  AuthenticationError,
+  MemoryProtocolError
+} from './types.js';
+
+const DEFAULT_INTROSPECTION_CACHE_TTL = 60; // seconds
+
+/**
+ * Hex SHA-256 of an API key, as listed in ApiKeyEntry.hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Verifies the credentials on transport messages and connections against
+ * SecurityConfig.authentication: JWTs, hashed API keys or OAuth tokens
+ * checked by introspection.
+ */
+export class Authentication {
+  public readonly enabled: boolean;
+  public readonly type: AuthenticationConfig['type'];
+
+  private jwt?: JwtVerifier;
+  private apiKeys?: ApiKeyVerifier;
+  private oauth?: OAuthVerifier;
+
+  constructor(config?: AuthenticationConfig) {
+    this.enabled = !!config?.enabled;
+    this.type = config?.type || 'jwt';
+    if (!this.enabled) {
+      return;
+    }
+
+    switch (config!.type) {
+      case 'jwt':
+        this.jwt = new JwtVerifier(config!.options as JwtAuthenticationOptions);
+        break;
+      case 'apikey':
+        this.apiKeys = new ApiKeyVerifier(config!.options as ApiKeyAuthenticationOptions);
+        break;
+      case 'oauth':
+        this.oauth = new OAuthVerifier(config!.options as OAuthAuthenticationOptions);
+        break;
+      default:
+        throw new MemoryProtocolError(`Unknown authentication type: ${config!.type}`, 400);
+    }
+  }
+
+  /**
+   * Replace the OAuth introspection endpoint, e.g. with a stub in tests
+   */
+  setIntrospector(introspector: TokenIntrospector): void {
+    if (!this.oauth) {
+      throw new MemoryProtocolError('Token introspection needs oauth authentication', 400);
+    }
+    this.oauth.introspector = introspector;
+  }
+
+  /**
+   * Authenticate the credentials in a set of headers: `Authorization: Bearer <token>`,
+   * or `X-Api-Key: <key>` for API keys
+   * @returns undefined when the headers carry no credentials
+   */
+  async authenticate(headers: RequestHeaders | Record<string, string> | undefined): Promise<AuthenticatedPrincipal | undefined> {
+    const credential = this.credentialFrom(headers || {});
+    if (credential === undefined) {
+      return undefined;
+    }
+
+    if (this.jwt) {
+      return this.jwt.verify(credential);
+    }
+    if (this.apiKeys) {
+      return this.apiKeys.verify(credential);
+    }
+    return this.oauth!.verify(credential);
+  }
+
+  private credentialFrom(headers: RequestHeaders | Record<string, string>): string | undefined {
+    const header = (name: string) => {
+      const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+      const value = key === undefined ? undefined : headers[key];
+      return Array.isArray(value) ? value[0] : value;
+    };
+
+    const authorization = header('authorization');
+    if (authorization) {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+      if (!match) {
+        throw new AuthenticationError('Authorization header must use the Bearer scheme');
+      }
+      return match[1];
+    }
+
+    return this.apiKeys ? header('x-api-key') : undefined;
+  }
+}
+
+// Verifiers
+
+class JwtVerifier {
+  private algorithms: Set<string>;
+
+  constructor(private options: JwtAuthenticationOptions) {
+    if (!options?.secret && !options?.publicKey) {
+      throw new MemoryProtocolError('JWT authentication needs a secret or a publicKey', 400);
+    }
+
+    const configured = [
+      ...(options.secret ? ['HS256'] : []),
+      ...(options.publicKey ? ['RS256'] : [])
+    ];
+    this.algorithms = new Set(options.algorithms || configured);
+  }
+
+  verify(token: string): AuthenticatedPrincipal {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, signature] = parts;
+
+    const header = decodeSegment(encodedHeader);
+    if (!this.algorithms.has(header.alg)) {
+      throw new AuthenticationError(`Token algorithm not accepted: ${header.alg}`);
+    }
+    if (!this.checkSignature(header.alg, `${encodedHeader}.${encodedPayload}`, signature)) {
+      throw new AuthenticationError('Invalid token signature');
+    }
+
+    const claims = decodeSegment(encodedPayload);
+    this.checkClaims(claims);
+
+    return toPrincipal('jwt', claims, this.options, claims.exp);
+  }
+
+  private checkSignature(algorithm: string, data: string, signature: string): boolean {
+    const actual = Buffer.from(signature, 'base64url');
+
+    if (algorithm === 'HS256' && this.options.secret) {
+      const expected = createHmac('sha256', this.options.secret).update(data).digest();
+      return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+    if (algorithm === 'RS256' && this.options.publicKey) {
+      try {
+        return verifySignature('RSA-SHA256', Buffer.from(data), this.options.publicKey, actual);
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private checkClaims(claims: Record<string, any>): void {
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockTolerance || 0;
+
+    if (typeof claims.exp === 'number' && now > claims.exp + tolerance) {
+      throw new AuthenticationError('Token has expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - tolerance) {
+      throw new AuthenticationError('Token is not valid yet');
+    }
+    if (this.options.issuer && !toList(this.options.issuer).includes(claims.iss)) {
+      throw new AuthenticationError('Token issuer not accepted');
+    }
+    if (this.options.audience) {
+      const audiences = toList(claims.aud);
+      if (!toList(this.options.audience).some(audience => audiences.includes(audience))) {
+        throw new AuthenticationError('Token audience not accepted');
+      }
+    }
+  }
+}
+
+class ApiKeyVerifier {
+  // Looked up by hash, so the time taken does not depend on how much of a key matches
+  private keys: Map<string, ApiKeyEntry> = new Map();
+
+  constructor(options: ApiKeyAuthenticationOptions) {
+    for (const entry of options?.keys || []) {
+      if (!/^[0-9a-f]{64}$/i.test(entry.hash || '') || !entry.userId) {
+        throw new MemoryProtocolError('API keys need a hex SHA-256 hash and a userId', 400, { name: entry.name });
+      }
+      this.keys.set(entry.hash.toLowerCase(), entry);
+    }
+  }
+
+  verify(key: string): AuthenticatedPrincipal {
+    const entry = this.keys.get(hashApiKey(key));
+    if (!entry) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return {
+      userId: entry.userId,
+      ...(entry.agentId !== undefined ? { agentId: entry.agentId } : {}),
+      method: 'apikey',
+      permissions: entry.permissions || [],
+      claims: entry.name !== undefined ? { name: entry.name } : {}
+    };
+  }
+}
+
+class OAuthVerifier {
+  public introspector: TokenIntrospector | undefined;
+
+  private cache: Map<string, { result: IntrospectionResult; expires: number }> = new Map();
+  private cacheTtl: number;
+
+  constructor(private options: OAuthAuthenticationOptions = {}) {
+    this.cacheTtl = (options.cacheTtl ?? DEFAULT_INTROSPECTION_CACHE_TTL) * 1000;
+    if (options.introspectionUrl) {
+      this.introspector = (token) => this.introspectOverHttp(token);
+    }
+  }
+
+  async verify(token: string): Promise<AuthenticatedPrincipal> {
+    const result = await this.introspect(token);
+    if (!result.active) {
+      throw new AuthenticationError('Token is not active');
+    }
+    if (typeof result.exp === 'number' && Date.now() / 1000 > result.exp) {
+      throw new AuthenticationError('Token has expired');
+    }
+
+    return toPrincipal('oauth', result, this.options, result.exp);
+  }
+
+  private async introspect(token: string): Promise<IntrospectionResult> {
+    if (!this.introspector) {
+      throw new MemoryProtocolError('OAuth authentication needs an introspectionUrl or a TokenIntrospector', 500);
+    }
+
+    const key = hashApiKey(token);
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.result;
+    }
+
+    let result: IntrospectionResult;
+    try {
+      result = await this.introspector(token);
+    } catch (error: any) {
+      throw new AuthenticationError(`Token introspection failed: ${error.message}`);
+    }
+
+    // Keep results no longer than the token itself lives
+    const expires = Math.min(Date.now() + this.cacheTtl, typeof result.exp === 'number' ? result.exp * 1000 : Infinity);
+    this.cache.set(key, { result, expires });
+    this.pruneCache();
+    return result;
+  }
+
+  private async introspectOverHttp(token: string): Promise<IntrospectionResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' };
+    if (this.options.clientId) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret || '')}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(this.options.introspectionUrl!, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString()
+    });
+    if (!response.ok) {
+      throw new Error(`introspection endpoint returned ${response.status}`);
+    }
+    return await response.json() as IntrospectionResult;
+  }
+
+  private pruneCache(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (entry.expires <= now) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
+
+// Helpers
+
+function decodeSegment(segment: string): Record<string, any> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new AuthenticationError('Malformed token');
+}
+
+function toPrincipal(
+  method: AuthenticatedPrincipal['method'],
+  claims: Record<string, any>,
+  options: { userClaim?: string; agentClaim?: string },
+  exp: unknown
+): AuthenticatedPrincipal {
+  const userId = claims[options.userClaim || 'sub'];
+  if (typeof userId !== 'string' || userId === '') {
+    throw new AuthenticationError(`Token has no ${options.userClaim || 'sub'} claim`);
+  }
+  const agentId = claims[options.agentClaim || 'agent_id'];
+
+  return {
+    userId,
+    ...(typeof agentId === 'string' ? { agentId } : {}),
+    method,
+    permissions: permissionsOf(claims),
+    claims,
+    ...(typeof exp === 'number' ? { expiresAt: new Date(exp * 1000) } : {})
+  };
+}
+
+// A `permissions` array claim, else the space-separated OAuth `scope` (or `scp`)
+function permissionsOf(claims: Record<string, any>): string[] {
+  if (Array.isArray(claims.permissions)) {
+    return claims.permissions.filter((permission: unknown): permission is string => typeof permission === 'string');
+  }
+  const scope = claims.scope ?? claims.scp;
+  if (Array.isArray(scope)) {
+    return scope.filter((permission: unknown): permission is string => typeof permission === 'string');
+  }
+  return typeof scope === 'string' ? scope.split(' ').filter(Boolean) : [];
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined ? [] : [value];
+}
@@ -0,0 +1,41 @@
+import { AuthorizationEngine, AuthorizationRequest } from './authorization.js';
+import { MemoryContext } from './types.js';
+
+const caller: MemoryContext = {
+  version: '1.0.0',
+  sessionId: 's',
+  memoryId: '',
+  flags: '',
+  state: {},
+  timestamp: new Date(),
+  userId: 'alice'
+};
+
+const memoryCall = (action: AuthorizationRequest['action']): AuthorizationRequest => ({ resource: 'memory', action, caller });
+
+describe('AuthorizationEngine', () => {
+  it('lets a write rule allow deletes', () => {
+    const engine = new AuthorizationEngine({
+      enabled: true,
+      rules: [{ resource: 'memory', action: 'write' }]
+    });
+
+    expect(engine.authorize(memoryCall('store')).allowed).toBe(true);
+    expect(engine.authorize(memoryCall('update')).allowed).toBe(true);
+    expect(engine.authorize(memoryCall('delete')).allowed).toBe(true);
+    expect(engine.authorize(memoryCall('retrieve')).allowed).toBe(false);
+  });
+
+  it('lets a write rule deny deletes', () => {
+    const engine = new AuthorizationEngine({
+      enabled: true,
+      rules: [
+        { resource: 'memory', action: '*' },
+        { resource: 'memory', action: 'write', effect: 'deny' }
+      ]
+    });
+
+    expect(engine.authorize(memoryCall('delete'))).toMatchObject({ allowed: false, reason: 'Denied by rule for memory:write' });
+    expect(engine.authorize(memoryCall('retrieve')).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,228 @@
+import { promises as fs, watchFile, unwatchFile, Stats } from 'fs';
+import {
+  AuthorizationConfig,
+  AuthorizationRule,
+  AuthenticatedPrincipal,
+  MemoryContext,
+  MemoryEvent,
+  Namespace,
+  MemoryProtocolError
+} from './types.js';
+import { compileCondition, CompiledCondition } from './ruleCondition.js';
+
+export type AuthorizationResource = 'memory' | 'session' | 'user';
+
+export type AuthorizationAction = 'store' | 'retrieve' | 'update' | 'delete' | 'create' | 'close' | 'forget' | 'export';
+
+/**
+ * A call to be checked: the caller's session, and the memory it touches if any
+ */
+export interface AuthorizationRequest {
+  resource: AuthorizationResource;
+  action: AuthorizationAction;
+  caller: MemoryContext;
+  principal?: AuthenticatedPrincipal; // Who opened the session, when it came over an authenticated transport
+  memory?: MemoryEvent;
+  target?: Namespace; // The user whose data a user call exports or forgets
+}
+
+export interface AuthorizationDecision {
+  allowed: boolean;
+  rule?: AuthorizationRule; // The deny rule that matched, or the allow rule that granted the call
+  reason: string;
+}
+
+/**
+ * Notifications from the rules file watcher
+ */
+export interface AuthorizationHost {
+  onReload(rules: AuthorizationRule[]): void;
+  onError(error: Error): void;
+}
+
+interface CompiledRule {
+  rule: AuthorizationRule;
+  condition: CompiledCondition | null;
+}
+
+// Rule actions that stand for several calls
+const ACTION_GROUPS: Record<string, AuthorizationAction[]> = {
+  read: ['retrieve'],
+  write: ['store', 'update', 'delete']
+};
+
+const RULES_FILE_POLL_INTERVAL = 500; // ms
+
+/**
+ * Evaluates SecurityConfig.authorization rules for every store, retrieve,
+ * update, delete, session and user data call. A call is allowed when an
+ * allow rule matches and no deny rule does; anything not allowed is denied.
+ *
+ * Conditions see `user` (id, agentId, sessionId, and the authenticated
+ * principal's permissions and claims), `session` (the caller's
+ * context), `context` (the memory's context, the caller's for session
+ * calls, or the target user's for user calls), `memory` (id, type, tags,
+ * tier, importance, source, confidence, metadata), `resource` and `action`.
+ */
+export class AuthorizationEngine {
+  public readonly enabled: boolean;
+
+  private rules: CompiledRule[] = [];
+  private rulesFile?: string;
+  private host?: AuthorizationHost;
+  private listener: ((current: Stats, previous: Stats) => void) | null = null;
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(config?: AuthorizationConfig, host?: AuthorizationHost) {
+    this.enabled = !!config?.enabled;
+    this.rulesFile = config?.rulesFile;
+    this.host = host;
+
+    if (this.enabled && !this.rulesFile) {
+      this.load(config?.rules || []);
+    }
+  }
+
+  /**
+   * Replace the rule set. Every rule is checked first, so an invalid rule
+   * leaves the current rules in place.
+   */
+  load(rules: AuthorizationRule[]): void {
+    if (!Array.isArray(rules)) {
+      throw new MemoryProtocolError('Authorization rules must be an array', 400);
+    }
+
+    this.rules = rules.map((rule, index) => this.compileRule(rule, index));
+  }
+
+  getRules(): AuthorizationRule[] {
+    return this.rules.map(({ rule }) => rule);
+  }
+
+  authorize(request: AuthorizationRequest): AuthorizationDecision {
+    if (!this.enabled) {
+      return { allowed: true, reason: 'Authorization disabled' };
+    }
+
+    const variables = this.variablesFor(request);
+    let allowedBy: AuthorizationRule | undefined;
+
+    for (const { rule, condition } of this.rules) {
+      if (!this.matches(rule, request) || (condition && !condition(variables))) {
+        continue;
+      }
+      if (rule.effect === 'deny') {
+        return { allowed: false, rule, reason: `Denied by rule for ${rule.resource}:${rule.action}` };
+      }
+      allowedBy = allowedBy ?? rule;
+    }
+
+    return allowedBy
+      ? { allowed: true, rule: allowedBy, reason: `Allowed by rule for ${allowedBy.resource}:${allowedBy.action}` }
+      : { allowed: false, reason: `No rule allows ${request.action} on ${request.resource}` };
+  }
+
+  /**
+   * Load the configured rules file and reload it whenever it changes
+   */
+  async start(): Promise<void> {
+    if (!this.enabled || !this.rulesFile || this.listener) {
+      return;
+    }
+
+    await this.loadFile(this.rulesFile);
+
+    const file = this.rulesFile;
+    this.listener = (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+        return;
+      }
+      // Serialize reloads so a slow read cannot overwrite a newer one
+      this.reloading = this.reloading.then(async () => {
+        try {
+          await this.loadFile(file);
+          this.host?.onReload(this.getRules());
+        } catch (error) {
+          this.host?.onError(error as Error);
+        }
+      });
+    };
+    watchFile(file, { interval: RULES_FILE_POLL_INTERVAL, persistent: false }, this.listener);
+  }
+
+  async stop(): Promise<void> {
+    if (this.listener && this.rulesFile) {
+      unwatchFile(this.rulesFile, this.listener);
+      this.listener = null;
+    }
+    await this.reloading;
+  }
+
+  // Private helper methods
+
+  private async loadFile(file: string): Promise<void> {
+    let rules: unknown;
+    try {
+      rules = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      throw new MemoryProtocolError(`Cannot read authorization rules from ${file}: ${error.message}`, 400, { file });
+    }
+
+    this.load(rules as AuthorizationRule[]);
+  }
+
+  private compileRule(rule: AuthorizationRule, index: number): CompiledRule {
+    const where = `Authorization rule ${index}`;
+
+    if (!rule || typeof rule.resource !== 'string' || typeof rule.action !== 'string') {
+      throw new MemoryProtocolError(`${where} needs a resource and an action`, 400, { rule: index });
+    }
+    if (rule.effect !== undefined && rule.effect !== 'allow' && rule.effect !== 'deny') {
+      throw new MemoryProtocolError(`${where} has an invalid effect: ${rule.effect}`, 400, { rule: index });
+    }
+
+    try {
+      return { rule, condition: rule.condition === undefined ? null : compileCondition(rule.condition) };
+    } catch (error: any) {
+      throw new MemoryProtocolError(`${where}: ${error.message}`, 400, { rule: index, ...error.data });
+    }
+  }
+
+  private matches(rule: AuthorizationRule, request: AuthorizationRequest): boolean {
+    if (rule.resource !== '*' && rule.resource !== request.resource) {
+      return false;
+    }
+    return rule.action === '*'
+      || rule.action === request.action
+      || !!ACTION_GROUPS[rule.action]?.includes(request.action);
+  }
+
+  private variablesFor(request: AuthorizationRequest): Record<string, unknown> {
+    const { caller, principal, memory, target } = request;
+
+    return {
+      resource: request.resource,
+      action: request.action,
+      user: {
+        id: caller.userId,
+        agentId: caller.agentId,
+        sessionId: caller.sessionId,
+        authenticated: !!principal,
+        permissions: principal?.permissions || [],
+        claims: principal?.claims || {}
+      },
+      session: caller,
+      context: memory ? memory.context : target ?? caller,
+      memory: memory && {
+        id: memory.id,
+        type: memory.memoryType,
+        tags: memory.content.tags || [],
+        tier: memory.metadata.storageTier,
+        importance: memory.metadata.importance,
+        source: memory.metadata.source,
+        confidence: memory.metadata.confidence,
+        metadata: memory.metadata
+      }
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { MemoryConsolidator, ConsolidationHost, ConsolidationResult } from './consolidator.js';
+import { InMemoryBackend } from '../storage/inMemoryBackend.js';
+import {
+  ConsolidationConfig,
+  MemoryEvent,
+  MemoryEventType,
+  MemoryType,
+  RelationshipType,
+  StorageTier
+} from './types.js';
+
+const CONFIG: ConsolidationConfig = {
+  enabled: true,
+  strategy: 'hybrid',
+  interval: 0,
+  batchSize: 100,
+  retention: { working: -1, episodic: -1, semantic: -1, procedural: -1, archival: -1 }
+};
+
+const PLANNING = 'The quarterly planning meeting covered the hiring plan for the platform team, the migration of the billing '
+  + 'service to the new cluster, the budget for conference travel, and the timeline for retiring the legacy reporting '
+  + 'dashboards before the end of the year';
+const PLANNING_EDITED = PLANNING.replace('conference', 'team');
+
+function eventOf(id: string, text: string, userId = 'alice'): MemoryEvent {
+  const now = new Date();
+  return {
+    id,
+    type: MemoryEventType.STORE,
+    memoryType: MemoryType.SEMANTIC,
+    context: { version: '1.0.0', sessionId: 's', memoryId: id, flags: '', state: {}, timestamp: now, userId },
+    content: { text },
+    metadata: {
+      source: 'user',
+      confidence: 1,
+      importance: 0.5,
+      accessCount: 0,
+      lastAccessed: now,
+      created: now,
+      updated: now,
+      storageTier: StorageTier.MAIN_CONTEXT
+    },
+    timestamp: now
+  };
+}
+
+describe('MemoryConsolidator', () => {
+  let backend: InMemoryBackend;
+  let results: ConsolidationResult[];
+  let host: ConsolidationHost;
+  let consolidator: MemoryConsolidator;
+
+  beforeEach(async () => {
+    backend = new InMemoryBackend();
+    await backend.initialize();
+    results = [];
+
+    host = {
+      getBackends: () => [['memory', backend]],
+      updateMemory: (id, updates) => backend.update(id, updates),
+      deleteMemory: (id) => backend.delete(id),
+      namespaceOf: (event) => event.context.userId ?? '',
+      onConsolidated: (result) => results.push(result),
+      onError: (error) => { throw error; }
+    };
+    consolidator = new MemoryConsolidator(CONFIG, host, 0.9);
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  // Listing, unlike get, does not count as an access
+  const stored = () => backend.list!(0, 100);
+  const storedTexts = async () => (await stored()).map(event => event.content.text).sort();
+
+  it('does not merge short texts that differ in a fact', async () => {
+    const texts = [
+      'Alice said the project deadline for the mobile app release is the end of March',
+      'Alice said the project deadline for the mobile app release is the end of April',
+      'Alice said the project deadline for the mobile app release is the end of May',
+      'The weekly sync with the platform team has been moved to March',
+      'The weekly sync with the platform team has been moved to April',
+      'The next release of the billing service is planned for June',
+      'The next release of the billing service is planned for July'
+    ];
+    for (const [index, text] of texts.entries()) {
+      await backend.store(eventOf(`m${index}`, text));
+    }
+
+    await consolidator.run();
+
+    expect(results).toEqual([]);
+    expect(await storedTexts()).toEqual([...texts].sort());
+  });
+
+  it('merges near-duplicates into the highest-scoring memory', async () => {
+    const kept = eventOf('kept', PLANNING);
+    kept.metadata.importance = 0.9;
+    kept.content.tags = ['planning'];
+    const absorbed = eventOf('absorbed', PLANNING_EDITED);
+    absorbed.metadata.importance = 0.2;
+    absorbed.metadata.accessCount = 3;
+    absorbed.content.tags = ['budget'];
+    absorbed.content.relationships = [
+      { type: RelationshipType.REFERENCES, targetId: 'kept', strength: 1 },
+      { type: RelationshipType.REFERENCES, targetId: 'roadmap', strength: 0.5 }
+    ];
+    await backend.store(kept);
+    await backend.store(absorbed);
+    await backend.store(eventOf('other', 'Bob prefers tea over coffee in the afternoon'));
+    const accessCount = (await stored()).reduce((sum, event) => sum + (event.id === 'other' ? 0 : event.metadata.accessCount), 0);
+
+    await consolidator.run();
+
+    expect(results).toEqual([{ backend: 'memory', strategy: 'hybrid', before: ['kept', 'absorbed'], after: ['kept'] }]);
+    const [merged, other] = await stored();
+    expect([merged.id, other.id]).toEqual(['kept', 'other']);
+    expect(merged.content.text).toBe(PLANNING);
+    expect(merged.content.tags).toEqual(['planning', 'budget']);
+    expect(merged.content.relationships).toEqual([{ type: RelationshipType.REFERENCES, targetId: 'roadmap', strength: 0.5 }]);
+    expect(merged.metadata).toMatchObject({ importance: 1, accessCount, consolidatedFrom: ['absorbed'] });
+  });
+
+  it('does not merge memories of different namespaces or memory types', async () => {
+    const episodic = eventOf('episodic', PLANNING_EDITED);
+    episodic.memoryType = MemoryType.EPISODIC;
+    await backend.store(eventOf('alice', PLANNING));
+    await backend.store(eventOf('bob', PLANNING_EDITED, 'bob'));
+    await backend.store(episodic);
+
+    await consolidator.run();
+
+    expect(results).toEqual([]);
+    expect(await storedTexts()).toHaveLength(3);
+  });
+
+  it('scores memories under the configured strategy', () => {
+    const important = eventOf('important', 'Alice is allergic to peanuts');
+    important.metadata.importance = 0.9;
+    const stale = eventOf('stale', 'Alice once mentioned the weather');
+    stale.metadata.importance = 0.1;
+    stale.metadata.lastAccessed = new Date(Date.now() - 7 * 86400 * 1000);
+
+    const scores = consolidator.score([important, stale]);
+    expect(scores.get('important')!).toBeGreaterThan(scores.get('stale')!);
+
+    const recency = new MemoryConsolidator({ ...CONFIG, strategy: 'recency' }, host, 0.9);
+    expect(recency.score([stale]).get('stale')).toBeCloseTo(Math.pow(0.5, 7), 5);
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  ConsolidationConfig,
+  MemoryContent,
+  MemoryEvent,
+  MemoryMetadata,
+  StorageBackend
+} from './types.js';
+import { TextFingerprint, textFingerprint, fingerprintSimilarity } from '../processing/deduplicator.js';
+
+export interface ConsolidationResult {
+  backend: string;
+  strategy: ConsolidationConfig['strategy'];
+  before: string[]; // Ids of the memories in the merged cluster
+  after: string[];  // Ids that survived consolidation
+}
+
+/**
+ * Operations the consolidator needs from the protocol. Updates and deletes
+ * apply to every backend holding the memory, not just the one being scanned.
+ */
+export interface ConsolidationHost {
+  getBackends(): [string, StorageBackend][];
+  updateMemory(id: string, updates: Partial<MemoryEvent>): Promise<void>;
+  deleteMemory(id: string): Promise<void>;
+  namespaceOf(event: MemoryEvent): string; // Memories are only merged within one namespace
+  onConsolidated(result: ConsolidationResult): void;
+  onError(error: Error): void;
+}
+
+const RECENCY_HALF_LIFE = 86400; // seconds
+
+/**
+ * Background consolidation engine driven by ConsolidationConfig
+ * Scans each backend in batches, scores memories under the configured strategy
+ * and merges clusters of similar memories into their highest-scoring member
+ */
+export class MemoryConsolidator {
+  private config: ConsolidationConfig;
+  private host: ConsolidationHost;
+  private similarityThreshold: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ConsolidationResult[]> | null = null;
+  private cursors: Map<string, number> = new Map();
+
+  constructor(config: ConsolidationConfig, host: ConsolidationHost, similarityThreshold: number) {
+    this.config = config;
+    this.host = host;
+    this.similarityThreshold = config.similarityThreshold ?? similarityThreshold;
+  }
+
+  start(): void {
+    if (this.timer || this.config.interval <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip a tick rather than overlap with a run still in progress
+      if (!this.running) {
+        this.run().catch(error => this.host.onError(error));
+      }
+    }, this.config.interval * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the schedule and wait for a run in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Run one consolidation pass over every backend that can enumerate its events
+   */
+  async run(): Promise<ConsolidationResult[]> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = this.consolidateBackends().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Score a batch of memories under the configured strategy (0-1, higher is more valuable)
+   */
+  score(events: MemoryEvent[], now: Date = new Date()): Map<string, number> {
+    const scores = new Map<string, number>();
+    const novelty = this.config.strategy === 'novelty' || this.config.strategy === 'hybrid'
+      ? this.noveltyScores(events)
+      : new Map<string, number>();
+
+    for (const event of events) {
+      const importance = event.metadata.importance;
+      const ageSeconds = Math.max(0, (now.getTime() - event.metadata.lastAccessed.getTime()) / 1000);
+      const recency = Math.pow(0.5, ageSeconds / RECENCY_HALF_LIFE);
+
+      switch (this.config.strategy) {
+        case 'novelty':
+          scores.set(event.id, novelty.get(event.id)!);
+          break;
+        case 'recency':
+          scores.set(event.id, recency);
+          break;
+        case 'importance':
+          scores.set(event.id, importance);
+          break;
+        default:
+          scores.set(event.id, 0.4 * importance + 0.3 * recency + 0.3 * novelty.get(event.id)!);
+      }
+    }
+
+    return scores;
+  }
+
+  // Private helper methods
+
+  private async consolidateBackends(): Promise<ConsolidationResult[]> {
+    const results: ConsolidationResult[] = [];
+    const removed = new Set<string>();
+
+    for (const [name, backend] of this.host.getBackends()) {
+      if (!backend.list) {
+        continue;
+      }
+
+      const batch = (await this.nextBatch(name, backend)).filter(event => !removed.has(event.id));
+      if (batch.length < 2) {
+        continue;
+      }
+
+      const survivors = await this.applyBackendConsolidation(name, backend, batch, results, removed);
+      const scores = this.score(survivors);
+
+      for (const cluster of this.cluster(survivors, scores)) {
+        const result = await this.mergeCluster(name, cluster);
+        cluster.slice(1).forEach(event => removed.add(event.id));
+        results.push(result);
+        this.host.onConsolidated(result);
+      }
+    }
+
+    return results;
+  }
+
+  private async nextBatch(name: string, backend: StorageBackend): Promise<MemoryEvent[]> {
+    // Walk each backend in windows of batchSize so every memory is eventually visited
+    const offset = this.cursors.get(name) || 0;
+    let batch = await backend.list!(offset, this.config.batchSize);
+
+    if (batch.length === 0 && offset > 0) {
+      batch = await backend.list!(0, this.config.batchSize);
+      this.cursors.set(name, batch.length);
+    } else {
+      this.cursors.set(name, batch.length < this.config.batchSize ? 0 : offset + batch.length);
+    }
+
+    return batch;
+  }
+
+  private async applyBackendConsolidation(
+    name: string,
+    backend: StorageBackend,
+    batch: MemoryEvent[],
+    results: ConsolidationResult[],
+    removed: Set<string>
+  ): Promise<MemoryEvent[]> {
+    if (!backend.consolidate) {
+      return batch;
+    }
+
+    // Backends keep the first of each duplicate set, so hand them the best-scored memories first
+    const scores = this.score(batch);
+    const ordered = [...batch].sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+
+    // Backends may mutate survivors in place, so compare against a snapshot
+    const before = new Map(batch.map(event => [event.id, structuredClone(event.metadata)]));
+    const kept = await backend.consolidate(ordered);
+    const keptIds = new Set(kept.map(event => event.id));
+    const dropped = batch.filter(event => !keptIds.has(event.id)).map(event => event.id);
+
+    if (dropped.length === 0) {
+      return kept;
+    }
+
+    for (const event of kept) {
+      const previous = before.get(event.id);
+      if (previous && (previous.importance !== event.metadata.importance
+        || previous.accessCount !== event.metadata.accessCount)) {
+        await this.host.updateMemory(event.id, { metadata: { ...event.metadata, updated: new Date() } });
+      }
+    }
+
+    for (const id of dropped) {
+      await this.host.deleteMemory(id);
+      removed.add(id);
+    }
+
+    const result: ConsolidationResult = {
+      backend: name,
+      strategy: this.config.strategy,
+      before: batch.map(event => event.id),
+      after: kept.map(event => event.id)
+    };
+    results.push(result);
+    this.host.onConsolidated(result);
+
+    return kept;
+  }
+
+  private cluster(events: MemoryEvent[], scores: Map<string, number>): MemoryEvent[][] {
+    // Greedy clustering: the highest-scoring unassigned memory absorbs its near neighbors
+    const ordered = [...events].sort((a, b) =>
+      (scores.get(b.id)! - scores.get(a.id)!) || a.id.localeCompare(b.id)
+    );
+    const fingerprints = new Map(events.map(event => [event.id, textFingerprint(event.content)]));
+    const assigned = new Set<string>();
+    const clusters: MemoryEvent[][] = [];
+
+    for (const representative of ordered) {
+      if (assigned.has(representative.id)) {
+        continue;
+      }
+      assigned.add(representative.id);
+
+      const cluster = [representative];
+      for (const candidate of ordered) {
+        if (assigned.has(candidate.id)
+          || candidate.memoryType !== representative.memoryType
+          || this.host.namespaceOf(candidate) !== this.host.namespaceOf(representative)) {
+          continue;
+        }
+
+        if (this.similarity(representative, candidate, fingerprints) >= this.similarityThreshold) {
+          assigned.add(candidate.id);
+          cluster.push(candidate);
+        }
+      }
+
+      if (cluster.length > 1) {
+        clusters.push(cluster);
+      }
+    }
+
+    return clusters;
+  }
+
+  private async mergeCluster(name: string, cluster: MemoryEvent[]): Promise<ConsolidationResult> {
+    const [representative, ...absorbed] = cluster;
+    const now = new Date();
+
+    const content: MemoryContent = {
+      ...representative.content,
+      tags: Array.from(new Set(cluster.flatMap(event => event.content.tags || []))),
+      relationships: this.mergeRelationships(cluster)
+    };
+    const metadata: MemoryMetadata = {
+      ...representative.metadata,
+      importance: Math.min(1.0, Math.max(...cluster.map(event => event.metadata.importance)) + 0.1),
+      accessCount: cluster.reduce((sum, event) => sum + event.metadata.accessCount, 0),
+      updated: now,
+      consolidatedFrom: [
+        ...(representative.metadata.consolidatedFrom || []),
+        ...absorbed.map(event => event.id)
+      ]
+    };
+
+    await this.host.updateMemory(representative.id, { content, metadata });
+    for (const event of absorbed) {
+      await this.host.deleteMemory(event.id);
+    }
+
+    return {
+      backend: name,
+      strategy: this.config.strategy,
+      before: cluster.map(event => event.id),
+      after: [representative.id]
+    };
+  }
+
+  private mergeRelationships(cluster: MemoryEvent[]): MemoryContent['relationships'] {
+    const ids = new Set(cluster.map(event => event.id));
+    const merged = new Map<string, NonNullable<MemoryContent['relationships']>[number]>();
+
+    for (const relationship of cluster.flatMap(event => event.content.relationships || [])) {
+      // Edges between members of the cluster collapse into the representative
+      if (ids.has(relationship.targetId)) {
+        continue;
+      }
+      const key = `${relationship.type}:${relationship.targetId}`;
+      const existing = merged.get(key);
+      if (!existing || relationship.strength > existing.strength) {
+        merged.set(key, relationship);
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  private noveltyScores(events: MemoryEvent[]): Map<string, number> {
+    const fingerprints = new Map(events.map(event => [event.id, textFingerprint(event.content)]));
+    const scores = new Map<string, number>();
+
+    for (const event of events) {
+      let closest = 0;
+      for (const other of events) {
+        if (other.id !== event.id) {
+          closest = Math.max(closest, this.similarity(event, other, fingerprints));
+        }
+      }
+      scores.set(event.id, 1 - closest);
+    }
+
+    return scores;
+  }
+
+  private similarity(a: MemoryEvent, b: MemoryEvent, fingerprints: Map<string, TextFingerprint>): number {
+    return fingerprintSimilarity(fingerprints.get(a.id)!, fingerprints.get(b.id)!);
+  }
+}
@@ -0,0 +1,125 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  MemoryQuery,
+  PaginationConfig,
+  MemoryProtocolError
+} from './types.js';
+
+/**
+ * Sort position of a result in a merged search, in ranking order
+ */
+export interface CursorPosition {
+  score: number; // Rank after backend priority weighting
+  priority: number;
+  importance: number;
+  timestamp: number; // ms
+  id: string;
+}
+
+export interface DecodedCursor {
+  position: CursorPosition;
+  served: number; // Results returned before this page
+}
+
+interface CursorPayload {
+  v: 1;
+  q: string; // Query hash
+  p: CursorPosition;
+  n: number;
+  exp: number; // ms
+}
+
+// Query fields that define the result set; limit, offset and output options do not
+const QUERY_FIELDS: (keyof MemoryQuery)[] = [
+  'id', 'query', 'memoryTypes', 'storageTiers', 'timeRange', 'threshold', 'filters', 'scope'
+];
+
+/**
+ * Signs and verifies the continuation tokens returned as MemorySearchResult.nextToken
+ * A token is base64url JSON plus an HMAC-SHA256 signature. It is bound to the
+ * query it was issued for and expires after the configured lifetime.
+ */
+export class CursorCodec {
+  private secret: Buffer;
+  private ttl: number;
+
+  constructor(config: PaginationConfig = {}) {
+    this.secret = config.secret ? Buffer.from(config.secret) : randomBytes(32);
+    this.ttl = (config.tokenTtl ?? 3600) * 1000;
+  }
+
+  encode(query: MemoryQuery, position: CursorPosition, served: number): string {
+    const payload: CursorPayload = {
+      v: 1,
+      q: this.hashQuery(query),
+      p: position,
+      n: served,
+      exp: Date.now() + this.ttl
+    };
+
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * Verify a token against the query it is presented with
+   */
+  decode(token: string, query: MemoryQuery): DecodedCursor {
+    const [body, signature] = typeof token === 'string' ? token.split('.') : [];
+    if (!body || !signature || !this.verify(body, signature)) {
+      throw new MemoryProtocolError('Invalid pagination cursor', 400);
+    }
+
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new MemoryProtocolError('Invalid pagination cursor', 400);
+    }
+
+    if (payload.v !== 1) {
+      throw new MemoryProtocolError(`Unsupported pagination cursor version: ${payload.v}`, 400);
+    }
+    if (payload.exp < Date.now()) {
+      throw new MemoryProtocolError('Pagination cursor has expired', 400, { expired: new Date(payload.exp) });
+    }
+    if (payload.q !== this.hashQuery(query)) {
+      throw new MemoryProtocolError('Pagination cursor was issued for a different query', 400);
+    }
+
+    return { position: payload.p, served: payload.n };
+  }
+
+  private hashQuery(query: MemoryQuery): string {
+    const fields = QUERY_FIELDS.map(field => [field, query[field] ?? null]);
+    return createHash('sha256').update(canonicalJson(fields)).digest('base64url');
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private verify(body: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+// JSON with object keys sorted, so equal queries hash equally
+function canonicalJson(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto';
+import { KeyProvider, MemoryProtocolError } from './types.js';
+
+export interface LocalKeyProviderOptions {
+  keys?: Record<string, string>; // Key id -> base64 32-byte master key
+  currentKeyId?: string; // Default: the last listed key
+  indexKey?: string; // base64 32-byte blind index key
+}
+
+/**
+ * Key provider holding master keys in process memory
+ * Keys not supplied are generated, and are lost on restart along with the
+ * ability to read what they encrypted; supply them from a secret store to persist data.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private keys: Map<string, Buffer> = new Map();
+  private current: string;
+  private indexKey: Buffer;
+
+  constructor(options: LocalKeyProviderOptions = {}) {
+    for (const [id, key] of Object.entries(options.keys || {})) {
+      this.keys.set(id, toKey(key, `key ${id}`));
+    }
+
+    if (this.keys.size === 0) {
+      this.keys.set('k1', randomBytes(32));
+    }
+
+    this.current = options.currentKeyId ?? Array.from(this.keys.keys()).pop()!;
+    if (!this.keys.has(this.current)) {
+      throw new MemoryProtocolError(`Unknown current key: ${this.current}`, 400);
+    }
+
+    this.indexKey = options.indexKey ? toKey(options.indexKey, 'index key') : randomBytes(32);
+  }
+
+  async currentKeyId(): Promise<string> {
+    return this.current;
+  }
+
+  async getKey(keyId: string): Promise<Buffer> {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new MemoryProtocolError(`Unknown encryption key: ${keyId}`, 500, { keyId });
+    }
+    return key;
+  }
+
+  async getIndexKey(): Promise<Buffer> {
+    return this.indexKey;
+  }
+
+  /**
+   * Generate a new master key and encrypt new data under it; older keys stay readable
+   */
+  async rotate(): Promise<string> {
+    let sequence = this.keys.size + 1;
+    while (this.keys.has(`k${sequence}`)) {
+      sequence++;
+    }
+
+    const id = `k${sequence}`;
+    this.keys.set(id, randomBytes(32));
+    this.current = id;
+    return id;
+  }
+
+  /**
+   * Forget a retired key, once nothing is encrypted under it any more
+   */
+  removeKey(keyId: string): void {
+    if (keyId === this.current) {
+      throw new MemoryProtocolError('The current key cannot be removed', 400, { keyId });
+    }
+    this.keys.delete(keyId);
+  }
+}
+
+function toKey(value: string, label: string): Buffer {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new MemoryProtocolError(`Encryption ${label} must be 32 bytes, base64-encoded`, 400);
+  }
+  return key;
+}
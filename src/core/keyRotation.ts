@@ -0,0 +1,109 @@
+import { EncryptionConfig, KeyProvider, MemoryProtocolError } from './types.js';
+import { EncryptedBackend } from '../storage/encryptedBackend.js';
+
+export interface ReencryptionResult {
+  keyId: string; // The key memories are now encrypted under
+  reencrypted: Record<string, number>; // Memories resealed, by backend
+}
+
+/**
+ * Operations the key rotation manager needs from the protocol
+ */
+export interface KeyRotationHost {
+  getBackends(): [string, EncryptedBackend][];
+  onReencrypted(result: ReencryptionResult): void;
+  onError(error: Error): void;
+}
+
+const REENCRYPT_BATCH_SIZE = 200;
+
+/**
+ * Moves memories onto the current encryption key when EncryptionConfig.keyRotation is on
+ * Each sweep reseals memories still encrypted under a retired key, so the old
+ * key can be removed from the provider once a sweep after rotating completes.
+ */
+export class KeyRotationManager {
+  private keyRotation: boolean;
+  private interval: number;
+  private keys: KeyProvider;
+  private host: KeyRotationHost;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ReencryptionResult> | null = null;
+
+  constructor(config: EncryptionConfig, keys: KeyProvider, host: KeyRotationHost) {
+    this.keyRotation = config.keyRotation;
+    this.interval = config.reencryptInterval || 3600;
+    this.keys = keys;
+    this.host = host;
+  }
+
+  start(): void {
+    if (this.timer || !this.keyRotation) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.running) {
+        this.reencrypt().catch(error => this.host.onError(error));
+      }
+    }, this.interval * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop sweeping and wait for a sweep in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Generate a new master key, then reseal existing memories under it
+   */
+  async rotate(): Promise<ReencryptionResult> {
+    if (!this.keys.rotate) {
+      throw new MemoryProtocolError('The key provider cannot rotate keys', 400);
+    }
+
+    // A sweep already running would finish under the old key
+    await this.running?.catch(() => undefined);
+    await this.keys.rotate();
+    return this.reencrypt();
+  }
+
+  /**
+   * Reseal every memory not yet encrypted under the current key
+   */
+  async reencrypt(): Promise<ReencryptionResult> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = this.sweep().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async sweep(): Promise<ReencryptionResult> {
+    const keyId = await this.keys.currentKeyId();
+    const reencrypted: Record<string, number> = {};
+
+    for (const [name, backend] of this.host.getBackends()) {
+      reencrypted[name] = await backend.reencrypt(REENCRYPT_BATCH_SIZE);
+    }
+
+    const result = { keyId, reencrypted };
+    if (Object.values(reencrypted).some(count => count > 0)) {
+      this.host.onReencrypted(result);
+    }
+    return result;
+  }
+}
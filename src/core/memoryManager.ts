@@ -1,4 +1,4 @@
-import { MemoryEvent, StorageBackend, MemoryCollector, MemoryExporter, MemoryProcessor } from './types';
+import { MemoryEvent, StorageBackend, MemoryCollector, MemoryExporter, MemoryProcessor } from './types.js';
 
 /**
  * MemoryManager handles memory storage, processing, and retrieval.
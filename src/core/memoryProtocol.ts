@@ -7,19 +7,82 @@ import {
   MemoryContext,
   MemoryQuery,
   MemorySearchResult,
+  RetrieveStreamOptions,
   MemoryProtocolConfig,
   StorageBackend,
+  StorageConfig,
+  RoutingRule,
+  WriteMode,
   Transport,
   ProtocolMessage,
   MemoryProtocolError,
+  StorageError,
+  SearchWarning,
   MEMORY_PROTOCOL_VERSION,
   DEFAULT_SEARCH_LIMIT,
+  DEFAULT_STREAM_BATCH_SIZE,
   DEFAULT_SIMILARITY_THRESHOLD,
-  DEFAULT_TTL,
   MemoryContent,
   MemoryMetadata,
-  StorageTier
+  StorageTier,
+  EmbeddingProvider,
+  ChunkMatch,
+  RelationshipType,
+  GraphTraversalOptions,
+  RelatedMemory,
+  AccessGrant,
+  Namespace,
+  FilterExpression,
+  AuthorizationError,
+  AuthorizationRule,
+  AuthenticationError,
+  AuthenticatedPrincipal,
+  TokenIntrospector,
+  RequestHeaders,
+  KeyProvider,
+  MemoryProcessor
 } from './types.js';
+import {
+  PluginRegistry,
+  EmbeddingProviderFactory,
+  StorageBackendFactory,
+  TransportFactory,
+  createDefaultRegistry
+} from './pluginRegistry.js';
+import { EmbeddingPipeline } from '../processing/embedding.js';
+import { Chunker } from '../processing/chunker.js';
+import { Deduplicator, DuplicateMatch } from '../processing/deduplicator.js';
+import { PiiRedactor } from '../processing/piiRedactor.js';
+import { MemoryManager } from './memoryManager.js';
+import { MemoryConsolidator, ConsolidationResult } from './consolidator.js';
+import { RetentionManager } from './retentionManager.js';
+import { PagingManager, PagingResult } from './pagingManager.js';
+import { CursorCodec, CursorPosition } from './cursor.js';
+import { TenantIsolation } from './tenantIsolation.js';
+import { AuthorizationEngine, AuthorizationResource, AuthorizationAction } from './authorization.js';
+import { Authentication } from './authentication.js';
+import { AuditLog, AuditEntry, AuditQuery, AuditVerification } from './auditLog.js';
+import { UserDataManager, DeletionReceipt, UserExport } from './userData.js';
+import { LocalKeyProvider } from './keyProvider.js';
+import { KeyRotationManager, ReencryptionResult } from './keyRotation.js';
+import { EncryptedBackend } from '../storage/encryptedBackend.js';
+import { validateFilter, evaluateFilter } from '../storage/filterExpression.js';
+import { reviveEvent } from '../storage/serialization.js';
+
+interface RankedResult {
+  event: MemoryEvent;
+  rank: number;
+  priority: number;
+}
+
+interface GatheredResults {
+  merged: Map<string, RankedResult>;
+  chunkMatches: Map<string, ChunkMatch>;
+  warnings: SearchWarning[];
+  totalCount: number;
+  truncated: boolean; // Some backend holds more matches than it returned
+  denied: string[]; // Matches the caller's authorization rules do not let it read
+}
 
 /**
  * Core Memory Protocol implementation
@@ -27,14 +90,130 @@ import {
  */
 export class MemoryProtocol extends EventEmitter {
   private config: MemoryProtocolConfig;
+  private registry: PluginRegistry;
   private storageBackends: Map<string, StorageBackend> = new Map();
+  private storageConfigs: Map<string, StorageConfig> = new Map();
   private transports: Map<string, Transport> = new Map();
   private sessions: Map<string, MemoryContext> = new Map();
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  private embeddings: EmbeddingPipeline | null = null;
+  private chunker: Chunker | null = null;
+  private deduplicator: Deduplicator | null = null;
+  private processors: MemoryProcessor[] = [];
+  private pipeline: MemoryManager | null = null;
+  private consolidator: MemoryConsolidator | null = null;
+  private retention: RetentionManager | null = null;
+  private paging: PagingManager | null = null;
+  private cursors: CursorCodec;
+  private isolation: TenantIsolation;
+  private authorization: AuthorizationEngine;
+  private authentication: Authentication;
+  private sessionPrincipals: Map<string, AuthenticatedPrincipal> = new Map(); // Sessions opened over an authenticated transport
+  private clientPrincipals: Map<string, AuthenticatedPrincipal> = new Map(); // Authenticated on connecting, by transport and client
+  private keyProvider: KeyProvider | null = null;
+  private keyRotation: KeyRotationManager | null = null;
+  private audit: AuditLog | null = null;
+  private userData: UserDataManager;
+  private activeRequests: Map<string, AbortController> = new Map(); // Cancellable requests by transport, client and id
   private initialized = false;
 
-  constructor(config: MemoryProtocolConfig) {
+  constructor(config: MemoryProtocolConfig, registry: PluginRegistry = createDefaultRegistry()) {
     super();
     this.config = config;
+    this.registry = registry;
+    this.cursors = new CursorCodec(config.pagination);
+    this.isolation = new TenantIsolation(config.security?.isolation);
+    this.authorization = new AuthorizationEngine(config.security?.authorization, {
+      onReload: (rules) => this.emit('authorizationRulesReloaded', { rules, source: config.security?.authorization?.rulesFile }),
+      onError: (error) => this.emit('authorizationReloadFailed', { error })
+    });
+    this.authentication = new Authentication(config.security?.authentication);
+
+    const auditConfig = config.security?.audit;
+    if (auditConfig?.enabled) {
+      this.audit = new AuditLog(auditConfig, {
+        principalOf: (sessionId) => this.sessionPrincipals.get(sessionId),
+        onError: (error) => this.emit('auditFailed', { error })
+      });
+    }
+
+    this.userData = new UserDataManager({
+      getBackends: () => Array.from(this.storageBackends.entries()),
+      flushWrites: () => this.flushWrites(),
+      closeSessions: (userId) => {
+        const sessions = Array.from(this.sessions).filter(([, context]) => context.userId === userId);
+        for (const [sessionId, context] of sessions) {
+          this.endSession(sessionId, context);
+        }
+        return sessions.length;
+      },
+      revokeGrants: (userId) => this.isolation.revokeUser(userId),
+      listGrants: (userId) => this.isolation.grantsOfUser(userId),
+      auditEntries: (userId) => this.audit?.query({ userId }) ?? [],
+      onMemoryDeleted: (id) => this.deduplicator?.remove(id)
+    });
+  }
+
+  /**
+   * Register a third-party storage backend factory, referenced by StorageConfig.backend
+   */
+  registerStorageBackend(name: string, factory: StorageBackendFactory): void {
+    this.registry.registerStorageBackend(name, factory);
+  }
+
+  /**
+   * Register a third-party transport factory, referenced by TransportConfig.type
+   */
+  registerTransport(type: string, factory: TransportFactory): void {
+    this.registry.registerTransport(type, factory);
+  }
+
+  /**
+   * Register an embedding provider factory, referenced by ProcessingConfig.embedding.model
+   */
+  registerEmbeddingProvider(model: string, factory: EmbeddingProviderFactory): void {
+    this.registry.registerEmbeddingProvider(model, factory);
+  }
+
+  /**
+   * Use an embedding provider directly, bypassing the registry lookup
+   */
+  setEmbeddingProvider(provider: EmbeddingProvider): void {
+    this.embeddings = new EmbeddingPipeline(provider, this.config.processing?.embedding);
+  }
+
+  /**
+   * Add a processor that every memory passes through before it is chunked, embedded and stored
+   * Processors run in the order added, after the built-in PII redactor.
+   */
+  addProcessor(processor: MemoryProcessor): void {
+    this.processors.push(processor);
+    this.pipeline?.addProcessor(processor);
+  }
+
+  /**
+   * Use a token introspector for oauth authentication instead of the configured introspectionUrl
+   */
+  setTokenIntrospector(introspector: TokenIntrospector): void {
+    this.authentication.setIntrospector(introspector);
+  }
+
+  /**
+   * Use a key provider for encryption at rest, e.g. one backed by a KMS
+   * Without one, keys are generated in memory and do not survive a restart.
+   */
+  setKeyProvider(provider: KeyProvider): void {
+    if (this.initialized) {
+      throw new MemoryProtocolError('The key provider must be set before initialization', 400);
+    }
+    this.keyProvider = provider;
+  }
+
+  /**
+   * Get an initialized storage backend by name
+   */
+  getStorageBackend(name: string): StorageBackend | undefined {
+    return this.storageBackends.get(name);
   }
 
   /**
@@ -46,11 +225,29 @@ export class MemoryProtocol extends EventEmitter {
     }
 
     try {
+      // Record operations from the start, resuming the audit chain from its file
+      await this.audit?.start(this);
+
+      // Load authorization rules from the rules file, if any
+      await this.authorization.start();
+
+      // Initialize processing pipelines
+      await this.initializeProcessing();
+
       // Initialize storage backends
       await this.initializeStorageBackends();
+
+      // Fingerprint what backends already hold, so duplicates of it are caught after a restart
+      await this.deduplicator?.seed(Array.from(this.storageBackends.values()));
       
       // Initialize transports
       await this.initializeTransports();
+
+      // Initialize background maintenance
+      this.initializeRetention();
+      this.initializeConsolidation();
+      this.initializePaging();
+      this.initializeKeyRotation();
       
       this.initialized = true;
       this.emit('initialized');
@@ -67,22 +264,7 @@ export class MemoryProtocol extends EventEmitter {
    * Create a new memory session
    */
   async createSession(userId?: string, agentId?: string): Promise<string> {
-    const sessionId = uuidv4();
-    const context: MemoryContext = {
-      version: MEMORY_PROTOCOL_VERSION,
-      sessionId,
-      memoryId: uuidv4(),
-      flags: '',
-      state: {},
-      timestamp: new Date(),
-      userId,
-      agentId
-    };
-
-    this.sessions.set(sessionId, context);
-    this.emit('sessionCreated', { sessionId, context });
-    
-    return sessionId;
+    return this.openSession(userId, agentId);
   }
 
   /**
@@ -94,8 +276,8 @@ export class MemoryProtocol extends EventEmitter {
       throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
     }
 
-    this.sessions.delete(sessionId);
-    this.emit('sessionClosed', { sessionId, context });
+    this.authorize('session', 'close', context);
+    this.endSession(sessionId, context);
   }
 
   /**
@@ -121,7 +303,6 @@ export class MemoryProtocol extends EventEmitter {
 
     const memoryContent: MemoryContent = {
       text: content,
-      keywords: this.extractKeywords(content),
       tags: metadata?.tags || []
     };
 
@@ -133,11 +314,12 @@ export class MemoryProtocol extends EventEmitter {
       lastAccessed: now,
       created: now,
       updated: now,
-      storageTier: StorageTier.MAIN_CONTEXT,
+      storageTier: this.getDefaultTier(type),
       ...metadata
     };
 
-    const event: MemoryEvent = {
+    // Processors see the text before keywords, chunks and embeddings are derived from it
+    const event = await this.applyProcessors({
       id: eventId,
       type: MemoryEventType.STORE,
       memoryType: type,
@@ -145,11 +327,32 @@ export class MemoryProtocol extends EventEmitter {
       content: memoryContent,
       metadata: memoryMetadata,
       timestamp: now,
-      ttl: DEFAULT_TTL
-    };
+      ttl: this.retention!.getTtl(type)
+    });
+
+    event.content.keywords = this.extractKeywords(event.content.text);
+    const chunks = this.chunker?.chunk(eventId, event.content.text) || [];
+    if (chunks.length > 0) {
+      event.content.chunks = chunks;
+    }
+
+    this.authorize('memory', 'store', context, event);
+
+    if (this.embeddings) {
+      await this.embeddings.embedEvents([event]);
+    }
+
+    if (this.deduplicator) {
+      const duplicate = this.deduplicator.findDuplicate(event);
+      const existingId = duplicate && await this.resolveDuplicate(event, duplicate);
+      if (existingId) {
+        return existingId;
+      }
+    }
 
     // Store in appropriate backends based on memory type and tier
     await this.storeEvent(event);
+    this.deduplicator?.add(event);
     
     this.emit('memoryStored', event);
     return eventId;
@@ -172,17 +375,13 @@ export class MemoryProtocol extends EventEmitter {
       throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
     }
 
-    const memoryQuery: MemoryQuery = {
-      query,
+    const memoryQuery = await this.buildQuery(query, context, {
       limit: DEFAULT_SEARCH_LIMIT,
-      threshold: DEFAULT_SIMILARITY_THRESHOLD,
-      includeMetadata: true,
-      includeContent: true,
       ...options
-    };
+    });
 
     const startTime = Date.now();
-    const results = await this.searchMemories(memoryQuery);
+    const results = await this.searchMemories(memoryQuery, context);
     const searchTime = Date.now() - startTime;
 
     const searchResult: MemorySearchResult = {
@@ -190,10 +389,36 @@ export class MemoryProtocol extends EventEmitter {
       searchTime
     };
 
-    this.emit('memoryRetrieved', { query: memoryQuery, results: searchResult });
+    this.emit('memoryRetrieved', { query: memoryQuery, results: searchResult, context });
     return searchResult;
   }
 
+  /**
+   * Stream every memory matching a query, fetching a page at a time as the
+   * consumer iterates. `limit` caps the total number of memories streamed.
+   */
+  retrieveStream(
+    query: string,
+    sessionId: string,
+    options?: Partial<MemoryQuery>,
+    streamOptions: RetrieveStreamOptions = {}
+  ): AsyncIterable<MemoryEvent> {
+    if (!this.initialized) {
+      throw new MemoryProtocolError('Protocol not initialized', 400);
+    }
+
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
+    }
+
+    if (options?.filters !== undefined) {
+      validateFilter(options.filters);
+    }
+
+    return this.streamMemories(query, context, options || {}, streamOptions);
+  }
+
   /**
    * Update a memory event
    */
@@ -211,12 +436,64 @@ export class MemoryProtocol extends EventEmitter {
       throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
     }
 
-    // Update across all relevant backends
-    for (const backend of this.storageBackends.values()) {
-      await backend.update(memoryId, updates);
+    await this.flushWrites();
+    const existing = await this.findVisibleMemory(memoryId, context);
+    this.assertWritable(context, existing);
+
+    // The id keys the memory in every backend; timestamp and created record when it was made
+    if (updates.id !== undefined && updates.id !== memoryId) {
+      throw new MemoryProtocolError('The id of a memory cannot be updated', 400, { memoryId });
+    }
+    const { id: _id, timestamp: _timestamp, ...changes } = updates;
+    updates = changes.metadata
+      ? { ...changes, metadata: { ...changes.metadata, created: existing.metadata.created } }
+      : changes;
+
+    if (updates.context && this.isolation.namespaceOf({ ...existing.context, ...updates.context })
+      !== this.isolation.namespaceOf(existing.context)) {
+      throw new AuthorizationError('Memories cannot be moved to another namespace', { memoryId });
+    }
+    if (updates.content) {
+      const updated = { ...existing, ...updates, id: memoryId };
+      const processed = await this.applyProcessors(updated);
+
+      // Keywords and chunks are derived from the processed text, as in store()
+      const { chunks: _chunks, ...content } = processed.content;
+      const chunks = this.chunker?.chunk(memoryId, content.text) || [];
+      updates = {
+        ...updates,
+        content: {
+          ...content,
+          keywords: this.extractKeywords(content.text),
+          ...(chunks.length > 0 ? { chunks } : {})
+        },
+        ...(processed.metadata !== updated.metadata ? { metadata: processed.metadata } : {})
+      };
+    }
+
+    // The memory must be writable both as it is and as it would become
+    this.authorize('memory', 'update', context, existing);
+    this.authorize('memory', 'update', context, { ...existing, ...updates, id: memoryId });
+
+    // Backends replace content as a whole, so new content needs its own embeddings
+    if (updates.content && this.embeddings) {
+      const content: MemoryContent = { ...updates.content };
+      if (content.text !== existing.content.text) {
+        delete content.embedding;
+        delete content.embeddingModel;
+      }
+      await this.embeddings.embedEvents([{ ...existing, ...updates, id: memoryId, content }]);
+      updates = { ...updates, content };
+    }
+
+    // Update across all backends holding the event
+    await this.applyToBackends(backend => backend.update(memoryId, updates));
+
+    if (updates.content) {
+      this.deduplicator?.refresh(memoryId, updates.content);
     }
 
-    this.emit('memoryUpdated', { memoryId, updates });
+    this.emit('memoryUpdated', { memoryId, updates, context });
   }
 
   /**
@@ -232,32 +509,156 @@ export class MemoryProtocol extends EventEmitter {
       throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
     }
 
-    // Delete from all backends
-    for (const backend of this.storageBackends.values()) {
-      await backend.delete(memoryId);
+    await this.flushWrites();
+    const existing = await this.findVisibleMemory(memoryId, context);
+    this.assertWritable(context, existing);
+    this.authorize('memory', 'delete', context, existing);
+
+    // Delete from all backends holding the event
+    await this.applyToBackends(backend => backend.delete(memoryId));
+    this.deduplicator?.remove(memoryId);
+
+    this.emit('memoryDeleted', { memoryId, context });
+  }
+
+  /**
+   * Share the session's namespace, or some of its memories, with another user
+   */
+  async grantAccess(
+    sessionId: string,
+    grantee: Namespace,
+    options: { permission?: 'read' | 'write'; memoryIds?: string[] } = {}
+  ): Promise<AccessGrant> {
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
+    }
+
+    const owner = this.isolation.ownerOf(context);
+    if (options.memoryIds) {
+      // Only memories of the owner's namespace can be shared
+      for (const memoryId of options.memoryIds) {
+        const memory = await this.findVisibleMemory(memoryId, context);
+        if (!this.isolation.contains(owner, memory.context)) {
+          throw new AuthorizationError(`Only the owner can share memory ${memoryId}`, { memoryId });
+        }
+      }
+    }
+
+    const grant = this.isolation.grant({
+      owner,
+      grantee,
+      permission: options.permission || 'read',
+      ...(options.memoryIds ? { memoryIds: options.memoryIds } : {})
+    });
+
+    this.emit('accessGranted', grant);
+    return grant;
+  }
+
+  /**
+   * Withdraw access granted by the session's namespace; with memoryIds, only to those memories
+   * @returns The number of grants removed or narrowed
+   */
+  async revokeAccess(sessionId: string, grantee: Namespace, memoryIds?: string[]): Promise<number> {
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
+    }
+
+    const revoked = this.isolation.revoke(this.isolation.ownerOf(context), grantee, memoryIds);
+    if (revoked.length > 0) {
+      this.emit('accessRevoked', { grants: revoked, memoryIds });
+    }
+    return revoked.length;
+  }
+
+  /**
+   * Grants issued by or to the session's namespace
+   */
+  listGrants(sessionId: string): AccessGrant[] {
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
     }
 
-    this.emit('memoryDeleted', { memoryId });
+    return this.isolation.listGrants(context);
+  }
+
+  /**
+   * Export every memory, grant and audit entry of a user as a portable archive
+   * Without a session the call is trusted; with one, it must pass the authorization rules,
+   * and belong to the user unless a rule allows otherwise.
+   */
+  async exportUser(userId: string, sessionId?: string): Promise<UserExport> {
+    this.authorizeUserCall(userId, 'export', sessionId);
+
+    const archive = await this.userData.exportUser(userId);
+    this.emit('userExported', { userId, memoryIds: archive.memories.map(memory => memory.id), sessionId });
+    return archive;
+  }
+
+  /**
+   * Erase a user: delete their memories, with chunks and embeddings, from every
+   * backend, drop relationships to them, revoke their grants and close their sessions
+   * Without a session the call is trusted; with one, it must pass the authorization rules,
+   * and belong to the user unless a rule allows otherwise. Audit entries are kept.
+   */
+  async forgetUser(userId: string, sessionId?: string): Promise<DeletionReceipt> {
+    this.authorizeUserCall(userId, 'forget', sessionId);
+
+    const receipt = await this.userData.forgetUser(userId);
+    this.emit('userForgotten', { receipt, sessionId });
+    return receipt;
+  }
+
+  /**
+   * Replace the authorization rules without restarting; invalid rules are rejected as a whole
+   */
+  reloadAuthorizationRules(rules: AuthorizationRule[]): void {
+    this.authorization.load(rules);
+    this.emit('authorizationRulesReloaded', { rules: this.authorization.getRules() });
   }
 
   /**
    * Handle incoming protocol messages
    */
-  async handleMessage(message: ProtocolMessage, transport: Transport): Promise<ProtocolMessage> {
+  async handleMessage(
+    message: ProtocolMessage,
+    transport: Transport,
+    clientId?: string,
+    headers?: RequestHeaders
+  ): Promise<ProtocolMessage> {
     try {
+      const principal = this.authentication.enabled
+        ? await this.authenticateMessage(message, transport, clientId, headers)
+        : undefined;
+
+      if (principal && message.method !== 'session/create' && message.params?.sessionId !== undefined) {
+        this.assertSessionPrincipal(message.params.sessionId, principal);
+      }
+
       switch (message.method) {
         case 'memory/store':
           return await this.handleStoreMessage(message);
         case 'memory/retrieve':
           return await this.handleRetrieveMessage(message);
+        case 'memory/retrieveStream':
+          return await this.handleRetrieveStreamMessage(message, transport, clientId);
+        case '$/cancelRequest':
+          return this.handleCancelRequestMessage(message, transport, clientId);
         case 'memory/update':
           return await this.handleUpdateMessage(message);
         case 'memory/delete':
           return await this.handleDeleteMessage(message);
         case 'session/create':
-          return await this.handleCreateSessionMessage(message);
+          return await this.handleCreateSessionMessage(message, principal);
         case 'session/close':
           return await this.handleCloseSessionMessage(message);
+        case 'user/export':
+          return await this.handleExportUserMessage(message);
+        case 'user/forget':
+          return await this.handleForgetUserMessage(message);
         default:
           throw new MemoryProtocolError(`Unknown method: ${message.method}`, 400);
       }
@@ -274,14 +675,124 @@ export class MemoryProtocol extends EventEmitter {
     }
   }
 
+  /**
+   * Run a consolidation pass immediately, regardless of the configured interval
+   */
+  async consolidateNow(): Promise<ConsolidationResult[]> {
+    if (!this.initialized || !this.consolidator) {
+      throw new MemoryProtocolError('Protocol not initialized', 400);
+    }
+
+    await this.flushWrites();
+    return this.consolidator.run();
+  }
+
+  /**
+   * Expire every memory past its TTL or retention period immediately
+   * @returns The number of memories evicted or demoted
+   */
+  async expireNow(): Promise<number> {
+    if (!this.initialized || !this.retention) {
+      throw new MemoryProtocolError('Protocol not initialized', 400);
+    }
+    if (!this.retention.enabled) {
+      throw new MemoryProtocolError('Expiry is not enabled', 400);
+    }
+
+    await this.flushWrites();
+    return this.retention.sweep();
+  }
+
+  /**
+   * Run a paging pass immediately, moving memories between MAIN_CONTEXT and EXTERNAL_CONTEXT
+   */
+  async rebalanceTiers(): Promise<PagingResult> {
+    if (!this.initialized || !this.paging) {
+      throw new MemoryProtocolError('Paging is not enabled', 400);
+    }
+
+    await this.flushWrites();
+    return this.paging.rebalance();
+  }
+
+  /**
+   * Switch encryption at rest to a new key and reseal existing memories under it
+   */
+  async rotateEncryptionKey(): Promise<ReencryptionResult> {
+    if (!this.initialized || !this.keyRotation) {
+      throw new MemoryProtocolError('Encryption is not enabled', 400);
+    }
+
+    await this.flushWrites();
+    return this.keyRotation.rotate();
+  }
+
+  /**
+   * Reseal memories still encrypted under a retired key immediately
+   */
+  async reencryptNow(): Promise<ReencryptionResult> {
+    if (!this.initialized || !this.keyRotation) {
+      throw new MemoryProtocolError('Encryption is not enabled', 400);
+    }
+
+    await this.flushWrites();
+    return this.keyRotation.reencrypt();
+  }
+
+  /**
+   * Audit entries recorded since startup, or loaded from the audit file, that match a query
+   */
+  queryAuditLog(query?: AuditQuery): AuditEntry[] {
+    return this.requireAudit().query(query);
+  }
+
+  /**
+   * Matching audit entries as JSON Lines
+   */
+  exportAuditLog(query?: AuditQuery): string {
+    return this.requireAudit().exportJsonl(query);
+  }
+
+  /**
+   * Check that no audit entry has been modified, removed or reordered
+   */
+  async verifyAuditLog(): Promise<AuditVerification> {
+    return this.requireAudit().verify();
+  }
+
+  /**
+   * Wait for all pending write-behind operations to complete
+   */
+  async flushWrites(): Promise<void> {
+    await Promise.all(Array.from(this.writeQueues.values()));
+  }
+
   /**
    * Shutdown the protocol
    */
   async shutdown(): Promise<void> {
+    // Cancel streams still being sent
+    for (const controller of this.activeRequests.values()) {
+      controller.abort();
+    }
+
     // Close all sessions
-    for (const sessionId of this.sessions.keys()) {
-      await this.closeSession(sessionId);
+    for (const [sessionId, context] of this.sessions) {
+      this.endSession(sessionId, context);
     }
+    this.clientPrincipals.clear();
+
+    // Stop background maintenance and drain write-behind queues before backends close
+    await this.consolidator?.stop();
+    this.consolidator = null;
+    await this.retention?.stop();
+    this.retention = null;
+    await this.paging?.stop();
+    this.paging = null;
+    await this.keyRotation?.stop();
+    this.keyRotation = null;
+    await this.authorization.stop();
+    await this.flushWrites();
 
     // Disconnect transports
     for (const transport of this.transports.values()) {
@@ -293,61 +804,936 @@ export class MemoryProtocol extends EventEmitter {
       await backend.close();
     }
 
+    await this.audit?.stop();
+
     this.initialized = false;
     this.emit('shutdown');
   }
 
   // Private methods
 
-  private async initializeStorageBackends(): Promise<void> {
-    // Implementation would load and initialize storage backends
-    // based on configuration
+  private async initializeProcessing(): Promise<void> {
+    this.chunker = new Chunker(this.config.processing?.chunking);
+
+    this.pipeline = new MemoryManager();
+    const piiConfig = this.config.processing?.pii;
+    if (piiConfig?.enabled) {
+      this.pipeline.addProcessor(new PiiRedactor(piiConfig));
+    }
+    for (const processor of this.processors) {
+      this.pipeline.addProcessor(processor);
+    }
+
+    const deduplicationConfig = this.config.processing?.deduplication;
+    if (deduplicationConfig?.enabled) {
+      this.deduplicator = new Deduplicator(deduplicationConfig, (event) => this.isolation.namespaceOf(event.context));
+    }
+
+    const embeddingConfig = this.config.processing?.embedding;
+
+    if (!this.embeddings && embeddingConfig && embeddingConfig.enabled !== false) {
+      const provider = await this.registry.createEmbeddingProvider(embeddingConfig);
+      if (!provider) {
+        throw new MemoryProtocolError(
+          `No embedding provider registered for model ${embeddingConfig.model}`,
+          400,
+          { model: embeddingConfig.model }
+        );
+      }
+      this.embeddings = new EmbeddingPipeline(provider, embeddingConfig);
+    }
   }
 
-  private async initializeTransports(): Promise<void> {
-    // Implementation would load and initialize transports
-    // based on configuration
+  private initializeRetention(): void {
+    this.retention = new RetentionManager(this.config.consolidation, {
+      getBackends: () => Array.from(this.storageBackends.entries()),
+      evictMemory: (id) => this.purgeMemory(id),
+      demoteMemory: (event, tier) => this.relocateEvent(event, tier),
+      onExpired: (notice) => this.emit(MemoryEventType.EVICT, notice),
+      onError: (error) => this.emit('expiryFailed', { error })
+    });
+    this.retention.start();
   }
 
-  private async storeEvent(event: MemoryEvent): Promise<void> {
-    // Determine appropriate backends based on memory type and tier
-    const relevantBackends = this.getRelevantBackends(event);
-    
-    for (const backend of relevantBackends) {
-      await backend.store(event);
+  private initializeConsolidation(): void {
+    const consolidationConfig = this.config.consolidation;
+    if (!consolidationConfig) {
+      return;
+    }
+
+    this.consolidator = new MemoryConsolidator(consolidationConfig, {
+      getBackends: () => Array.from(this.storageBackends.entries()),
+      updateMemory: (id, updates) => this.applyToBackends(backend => backend.update(id, updates)),
+      deleteMemory: (id) => this.purgeMemory(id),
+      namespaceOf: (event) => this.isolation.namespaceOf(event.context),
+      onConsolidated: (result) => this.emit(MemoryEventType.CONSOLIDATE, result),
+      onError: (error) => this.emit('consolidationFailed', { error })
+    }, this.config.processing?.deduplication?.threshold ?? 0.9);
+
+    if (consolidationConfig.enabled) {
+      this.consolidator.start();
     }
   }
 
-  private async searchMemories(query: MemoryQuery): Promise<MemorySearchResult> {
-    // Implementation would search across relevant backends
-    // and aggregate results
-    return {
-      memories: [],
-      totalCount: 0,
-      query,
-      searchTime: 0
-    };
+  private initializePaging(): void {
+    const pagingConfig = this.config.paging;
+    if (!pagingConfig?.enabled) {
+      return;
+    }
+
+    this.paging = new PagingManager(pagingConfig, {
+      getBackends: () => Array.from(this.storageBackends.entries()),
+      moveMemory: (event, tier) => this.relocateEvent(event, tier),
+      isExpired: (event) => this.retention?.expiryReason(event) != null,
+      onMoved: (move) => this.emit('tierChanged', move),
+      onError: (error) => this.emit('pagingFailed', { error })
+    });
+    this.paging.start();
   }
 
-  private getRelevantBackends(event: MemoryEvent): StorageBackend[] {
-    // Logic to determine which backends should store this event
-    return Array.from(this.storageBackends.values());
+  private requireAudit(): AuditLog {
+    if (!this.audit) {
+      throw new MemoryProtocolError('Audit logging is not enabled', 400);
+    }
+    return this.audit;
   }
 
-  private extractKeywords(content: string): string[] {
-    // Simple keyword extraction - in practice, would use NLP
-    return content
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 3)
-      .slice(0, 10);
+  private initializeKeyRotation(): void {
+    const encryptionConfig = this.config.security?.encryption;
+    if (!encryptionConfig?.enabled) {
+      return;
+    }
+
+    this.keyRotation = new KeyRotationManager(encryptionConfig, this.keyProvider!, {
+      getBackends: () => Array.from(this.storageBackends.entries())
+        .filter((entry): entry is [string, EncryptedBackend] => entry[1] instanceof EncryptedBackend),
+      onReencrypted: (result) => this.emit('reencrypted', result),
+      onError: (error) => this.emit('reencryptionFailed', { error })
+    });
+    this.keyRotation.start();
   }
 
-  // Message handlers
+  private async initializeStorageBackends(): Promise<void> {
+    const encryptionConfig = this.config.security?.encryption;
+    if (encryptionConfig?.enabled) {
+      if (encryptionConfig.algorithm !== 'aes-256-gcm') {
+        throw new MemoryProtocolError(`Unsupported encryption algorithm: ${encryptionConfig.algorithm}`, 400);
+      }
+      this.keyProvider = this.keyProvider ?? new LocalKeyProvider();
+    }
 
-  private async handleStoreMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
+    const storageConfigs = [...(this.config.storage || [])]
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const storageConfig of storageConfigs) {
+      const name = storageConfig.options?.name || storageConfig.backend;
+      if (this.storageBackends.has(name)) {
+        throw new MemoryProtocolError(`Duplicate storage backend: ${name}`, 400);
+      }
+
+      let backend = await this.registry.createStorageBackend(storageConfig);
+      if (encryptionConfig?.enabled) {
+        backend = new EncryptedBackend(backend, this.keyProvider!, { encryptedMetadata: encryptionConfig.encryptedMetadata });
+      }
+      await backend.initialize();
+
+      this.storageBackends.set(name, backend);
+      this.storageConfigs.set(name, storageConfig);
+    }
+  }
+
+  private async initializeTransports(): Promise<void> {
+    for (const transportConfig of this.config.transports || []) {
+      const name = transportConfig.options?.name || transportConfig.type;
+      if (this.transports.has(name)) {
+        throw new MemoryProtocolError(`Duplicate transport: ${name}`, 400);
+      }
+
+      const transport = await this.registry.createTransport(transportConfig);
+      this.attachTransport(transport);
+      await transport.connect();
+
+      this.transports.set(name, transport);
+    }
+  }
+
+  private attachTransport(transport: Transport): void {
+    if (this.authentication.enabled) {
+      transport.setAuthenticator?.((headers) => this.authentication.authenticate(headers));
+    }
+
+    transport.on('message', async (message: ProtocolMessage, clientId?: string, headers?: RequestHeaders) => {
+      // Only requests and notifications are dispatched; responses are left to the caller
+      if (!message.method) {
+        return;
+      }
+
+      const response = await this.handleMessage(message, transport, clientId, headers);
+
+      // Notifications do not receive a response
+      if (message.id === undefined) {
+        return;
+      }
+
+      try {
+        await transport.send(response, clientId);
+      } catch (error: any) {
+        this.emit('transportError', { transport: transport.name, error });
+      }
+    });
+
+    transport.on('error', (error: Error) => {
+      this.emit('transportError', { transport: transport.name, error });
+    });
+
+    transport.on('clientConnected', ({ clientId, principal }: { clientId: string; principal?: AuthenticatedPrincipal }) => {
+      if (principal) {
+        this.clientPrincipals.set(this.requestKey(transport, clientId, ''), principal);
+      }
+    });
+
+    transport.on('authenticationFailed', ({ error }: { error: Error }) => {
+      this.emit('authenticationFailed', { transport: transport.name, error });
+    });
+
+    // Nobody is left to read the streams of a client that went away
+    transport.on('clientDisconnected', ({ clientId }: { clientId: string }) => {
+      const prefix = this.requestKey(transport, clientId, '');
+      this.clientPrincipals.delete(prefix);
+      for (const [key, controller] of this.activeRequests) {
+        if (key.startsWith(prefix)) {
+          controller.abort();
+        }
+      }
+    });
+  }
+
+  private async applyProcessors(event: MemoryEvent): Promise<MemoryEvent> {
+    if (!this.pipeline) {
+      return event;
+    }
+
+    const [processed] = await this.pipeline.process([event]);
+    if (!processed) {
+      throw new MemoryProtocolError('Memory was dropped by a processor', 400, { memoryId: event.id });
+    }
+    return processed;
+  }
+
+  private async storeEvent(event: MemoryEvent): Promise<void> {
+    // Determine appropriate backends based on memory type and tier
+    const relevantBackends = this.getRelevantBackends(event);
+
+    if (relevantBackends.length === 0 && this.storageBackends.size > 0) {
+      throw new StorageError(
+        `No storage backend accepts ${event.memoryType} memories on tier ${event.metadata.storageTier}`,
+        { memoryType: event.memoryType, storageTier: event.metadata.storageTier }
+      );
+    }
+
+    for (const { name, backend, writeMode } of relevantBackends) {
+      if (writeMode === 'write-behind') {
+        this.enqueueWrite(name, event, () => backend.store(structuredClone(event)));
+      } else {
+        await backend.store(event);
+      }
+    }
+  }
+
+  /**
+   * Apply the deduplication policy to a near-duplicate; returns the existing id when merged
+   */
+  private async resolveDuplicate(event: MemoryEvent, duplicate: DuplicateMatch): Promise<string | null> {
+    switch (this.deduplicator!.policy) {
+      case 'reject':
+        throw new MemoryProtocolError(
+          `Duplicate memory: similar to ${duplicate.memoryId}`,
+          409,
+          { existingId: duplicate.memoryId, similarity: duplicate.similarity }
+        );
+
+      case 'keep':
+        event.content.relationships = [
+          ...(event.content.relationships || []),
+          { type: RelationshipType.SIMILAR_TO, targetId: duplicate.memoryId, strength: duplicate.similarity }
+        ];
+        return null;
+
+      default: {
+        await this.flushWrites();
+        const found = await this.searchMemories({ query: '', id: duplicate.memoryId, limit: 1 });
+        const existing = found.memories[0];
+
+        // The existing memory is gone from every backend; store the new one instead
+        if (!existing) {
+          this.deduplicator!.remove(duplicate.memoryId);
+          return null;
+        }
+
+        const now = new Date();
+        const content: MemoryContent = {
+          ...existing.content,
+          tags: Array.from(new Set([...(existing.content.tags || []), ...(event.content.tags || [])])),
+          relationships: [
+            ...(existing.content.relationships || []),
+            {
+              type: RelationshipType.SIMILAR_TO,
+              targetId: event.id,
+              strength: duplicate.similarity,
+              metadata: { merged: true, source: event.metadata.source, mergedAt: now.toISOString() }
+            }
+          ]
+        };
+        const metadata: MemoryMetadata = {
+          ...existing.metadata,
+          importance: Math.min(1.0, existing.metadata.importance + 0.1),
+          accessCount: existing.metadata.accessCount + 1,
+          lastAccessed: now,
+          updated: now
+        };
+
+        await this.applyToBackends(backend => backend.update(existing.id, { content, metadata }));
+        this.emit('memoryMerged', {
+          memoryId: existing.id,
+          duplicateId: event.id,
+          similarity: duplicate.similarity,
+          context: event.context
+        });
+
+        return existing.id;
+      }
+    }
+  }
+
+  private enqueueWrite(name: string, event: MemoryEvent, write: () => Promise<void>): void {
+    // Writes are chained per backend so they land in submission order
+    const previous = this.writeQueues.get(name) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch(error => {
+        this.emit('writeBehindFailed', { backend: name, memoryId: event.id, error });
+      })
+      .finally(() => {
+        if (this.writeQueues.get(name) === next) {
+          this.writeQueues.delete(name);
+        }
+      });
+
+    this.writeQueues.set(name, next);
+  }
+
+  private async purgeMemory(id: string): Promise<void> {
+    await this.applyToBackends(backend => backend.delete(id));
+    this.deduplicator?.remove(id);
+  }
+
+  /**
+   * Move an event to the backends routed for another tier, dropping it from the rest.
+   * Every step is undone if any backend fails, so the event is never lost or half-moved.
+   */
+  private async relocateEvent(event: MemoryEvent, tier: StorageTier): Promise<void> {
+    await this.flushWrites();
+
+    // Search scores are not part of the stored event
+    const { score, ...stored } = event;
+    const moved: MemoryEvent = {
+      ...stored,
+      metadata: { ...event.metadata, storageTier: tier, updated: new Date() }
+    };
+    const targets = new Set(this.getRelevantBackends(moved).map(({ name }) => name));
+    if (targets.size === 0) {
+      throw new StorageError(
+        `No storage backend accepts ${event.memoryType} memories on tier ${tier}`,
+        { memoryId: event.id, memoryType: event.memoryType, storageTier: tier }
+      );
+    }
+
+    const undo: (() => Promise<void>)[] = [];
+    try {
+      for (const [name, backend] of this.storageBackends) {
+        // Backends without get() are assumed to hold the event as it was read
+        const current = backend.get ? await backend.get(event.id) : event;
+        const previous = current && structuredClone(current);
+
+        if (targets.has(name)) {
+          if (previous) {
+            await backend.update(event.id, { metadata: { ...moved.metadata } });
+            undo.push(() => backend.update(event.id, { metadata: previous.metadata }));
+          } else {
+            await backend.store(structuredClone(moved));
+            undo.push(() => backend.delete(event.id));
+          }
+        } else if (previous) {
+          await backend.delete(event.id);
+          undo.push(() => backend.store(previous));
+        }
+      }
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step().catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read a memory the session can see. Memories of other namespaces are
+   * reported as not found, so their existence is not revealed.
+   */
+  private async findVisibleMemory(memoryId: string, context: MemoryContext): Promise<MemoryEvent> {
+    const scope = this.isolation.scopeFor(context);
+
+    for (const backend of this.storageBackends.values()) {
+      const event = backend.get
+        ? await backend.get(memoryId).catch(() => undefined)
+        : (await backend.retrieve({ query: '', id: memoryId, scope, limit: 1 }).catch(() => null))?.memories[0];
+
+      if (event) {
+        if (!scope || evaluateFilter(event, scope)) {
+          return event;
+        }
+        break;
+      }
+    }
+
+    throw new MemoryProtocolError(`Memory not found: ${memoryId}`, 404);
+  }
+
+  private openSession(userId?: string, agentId?: string, principal?: AuthenticatedPrincipal): string {
+    const sessionId = uuidv4();
+    const context: MemoryContext = {
+      version: MEMORY_PROTOCOL_VERSION,
+      sessionId,
+      memoryId: uuidv4(),
+      flags: '',
+      state: {},
+      timestamp: new Date(),
+      userId,
+      agentId
+    };
+
+    // Bound first, so rules can see the principal's claims
+    if (principal) {
+      this.sessionPrincipals.set(sessionId, principal);
+    }
+    try {
+      this.authorize('session', 'create', context);
+    } catch (error) {
+      this.sessionPrincipals.delete(sessionId);
+      throw error;
+    }
+
+    this.sessions.set(sessionId, context);
+    this.emit('sessionCreated', { sessionId, context });
+    
+    return sessionId;
+  }
+
+  private endSession(sessionId: string, context: MemoryContext): void {
+    this.sessions.delete(sessionId);
+    this.emit('sessionClosed', { sessionId, context });
+    this.sessionPrincipals.delete(sessionId);
+  }
+
+  /**
+   * Check a call against the authorization rules, reporting and throwing on denial
+   */
+  private authorize(
+    resource: AuthorizationResource,
+    action: AuthorizationAction,
+    caller: MemoryContext,
+    memory?: MemoryEvent,
+    target?: Namespace
+  ): void {
+    const principal = this.sessionPrincipals.get(caller.sessionId);
+    const decision = this.authorization.authorize({ resource, action, caller, principal, memory, target });
+    if (decision.allowed) {
+      return;
+    }
+
+    this.emit('authorizationDenied', {
+      resource,
+      action,
+      sessionId: caller.sessionId,
+      userId: caller.userId,
+      agentId: caller.agentId,
+      memoryIds: memory ? [memory.id] : [],
+      rule: decision.rule,
+      reason: decision.reason
+    });
+    throw new AuthorizationError(decision.reason, { resource, action, memoryId: memory?.id });
+  }
+
+  private authorizeUserCall(userId: string, action: AuthorizationAction, sessionId?: string): void {
+    if (!this.initialized) {
+      throw new MemoryProtocolError('Protocol not initialized', 400);
+    }
+    if (!userId) {
+      throw new MemoryProtocolError('userId is required', 400);
+    }
+    if (sessionId === undefined) {
+      return;
+    }
+
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      throw new MemoryProtocolError(`Session not found: ${sessionId}`, 404);
+    }
+    // Only an authorization rule can let a session act on another user
+    if (context.userId !== userId && !this.authorization.enabled) {
+      throw new AuthorizationError(`Session cannot ${action} user ${userId}`, { userId });
+    }
+    this.authorize('user', action, context, undefined, { userId });
+  }
+
+  private canRetrieve(caller: MemoryContext, memory: MemoryEvent): boolean {
+    const principal = this.sessionPrincipals.get(caller.sessionId);
+    return this.authorization.authorize({ resource: 'memory', action: 'retrieve', caller, principal, memory }).allowed;
+  }
+
+  private assertWritable(context: MemoryContext, event: MemoryEvent): void {
+    if (!this.isolation.canWrite(context, event)) {
+      throw new AuthorizationError(`Read-only access to memory ${event.id}`, { memoryId: event.id });
+    }
+  }
+
+  private async applyToBackends(operation: (backend: StorageBackend) => Promise<void>): Promise<void> {
+    // Routing means an event only lives in some backends; succeed if any backend applied it
+    let applied = 0;
+    let firstError: any;
+
+    for (const backend of this.storageBackends.values()) {
+      try {
+        await operation(backend);
+        applied++;
+      } catch (error) {
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (applied === 0 && firstError) {
+      throw firstError;
+    }
+  }
+
+  private async buildQuery(query: string, context: MemoryContext, options: Partial<MemoryQuery>): Promise<MemoryQuery> {
+    const memoryQuery: MemoryQuery = {
+      query,
+      threshold: DEFAULT_SIMILARITY_THRESHOLD,
+      includeMetadata: true,
+      includeContent: true,
+      ...options,
+      // Backends only return memories from namespaces the session can see
+      scope: this.isolation.scopeFor(context)
+    };
+
+    // Reject malformed filters up front rather than as per-backend warnings
+    if (memoryQuery.filters !== undefined) {
+      validateFilter(memoryQuery.filters);
+    }
+
+    if (this.embeddings && memoryQuery.query && !memoryQuery.embedding) {
+      memoryQuery.embedding = await this.embeddings.embedQuery(memoryQuery.query);
+    }
+
+    return memoryQuery;
+  }
+
+  private async *streamMemories(
+    query: string,
+    context: MemoryContext,
+    options: Partial<MemoryQuery>,
+    streamOptions: RetrieveStreamOptions
+  ): AsyncGenerator<MemoryEvent> {
+    const { signal } = streamOptions;
+    const batchSize = Math.max(streamOptions.batchSize || DEFAULT_STREAM_BATCH_SIZE, 1);
+    const checkAborted = () => {
+      if (signal?.aborted) {
+        throw new MemoryProtocolError('Retrieval cancelled', 499);
+      }
+    };
+
+    checkAborted();
+    const memoryQuery = await this.buildQuery(query, context, options);
+    let remaining = options.limit ?? Infinity;
+    let cursor = memoryQuery.cursor;
+
+    // Pages are fetched on demand, so a slow consumer holds back the next backend query
+    do {
+      checkAborted();
+      const pageQuery: MemoryQuery = { ...memoryQuery, limit: Math.min(batchSize, remaining), cursor };
+
+      const startTime = Date.now();
+      const page = await this.searchMemories(pageQuery, context);
+      this.emit('memoryRetrieved', { query: pageQuery, results: { ...page, searchTime: Date.now() - startTime }, context });
+
+      for (const memory of page.memories) {
+        checkAborted();
+        yield memory;
+        remaining--;
+      }
+
+      cursor = page.nextToken;
+    } while (cursor && remaining > 0);
+  }
+
+  /**
+   * Merged, ranked search across backends; without a caller, authorization rules are not applied
+   */
+  private async searchMemories(query: MemoryQuery, caller?: MemoryContext): Promise<MemorySearchResult> {
+    const backends = this.getSearchBackends(query);
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+    const cursor = query.cursor ? this.cursors.decode(query.cursor, query) : null;
+    const served = cursor ? cursor.served : query.offset || 0;
+
+    // Each backend returns its own top results; pagination is applied after merging.
+    // The window grows until it reaches past the cursor position, or past results
+    // withheld by authorization rules, to fill the page.
+    let window = served + limit;
+    let gathered: GatheredResults;
+    let ranked: RankedResult[];
+    let start: number;
+
+    while (true) {
+      const backendQuery: MemoryQuery = {
+        ...query, offset: 0, limit: window, cursor: undefined, expandRelated: undefined
+      };
+      gathered = await this.gatherResults(backends, backendQuery, caller);
+      ranked = Array.from(gathered.merged.values()).sort((a, b) => this.compareRanked(a, b));
+
+      if (cursor) {
+        start = ranked.findIndex(entry => this.compareRanked(entry, cursor.position) > 0);
+        if (start === -1) {
+          start = ranked.length;
+        }
+      } else {
+        start = served;
+      }
+
+      const backendTotal = gathered.totalCount + gathered.denied.length;
+      if (ranked.length - start >= limit || !gathered.truncated || window >= backendTotal) {
+        break;
+      }
+      window *= 2;
+    }
+
+    const { merged, chunkMatches, warnings, denied } = gathered;
+    const totalCount = Math.max(gathered.totalCount, merged.size);
+    const page = ranked.slice(start, start + limit);
+    const memories = page.map(entry => entry.event);
+    const result: MemorySearchResult = {
+      memories,
+      totalCount,
+      query,
+      searchTime: 0
+    };
+
+    // More results exist past this page, either merged already or still held by a backend
+    const last = page[page.length - 1];
+    if (last && (ranked.length > start + limit || gathered.truncated)) {
+      result.nextToken = this.cursors.encode(query, this.rankPosition(last), served + page.length);
+    }
+
+    const pageChunkMatches = memories
+      .map(memory => chunkMatches.get(memory.id))
+      .filter((match): match is ChunkMatch => match !== undefined);
+    if (pageChunkMatches.length > 0) {
+      result.chunkMatches = pageChunkMatches;
+    }
+
+    if (query.expandRelated) {
+      const related = await this.expandRelated(memories, query.expandRelated, query.scope, warnings, (memory) => {
+        const readable = !caller || this.canRetrieve(caller, memory);
+        if (!readable) {
+          denied.push(memory.id);
+        }
+        return readable;
+      });
+      if (related.length > 0) {
+        result.related = related;
+      }
+    }
+
+    if (caller && denied.length > 0) {
+      this.emit('authorizationDenied', {
+        resource: 'memory',
+        action: 'retrieve',
+        sessionId: caller.sessionId,
+        userId: caller.userId,
+        agentId: caller.agentId,
+        memoryIds: denied,
+        reason: 'Results withheld by authorization rules'
+      });
+    }
+
+    if (warnings.length > 0) {
+      result.warnings = warnings;
+    }
+
+    return result;
+  }
+
+  private async gatherResults(
+    backends: [string, StorageBackend][],
+    backendQuery: MemoryQuery,
+    caller?: MemoryContext
+  ): Promise<GatheredResults> {
+    const outcomes = await Promise.allSettled(
+      backends.map(([, backend]) => backend.retrieve(backendQuery))
+    );
+
+    const warnings: SearchWarning[] = [];
+    const merged: Map<string, RankedResult> = new Map();
+    const chunkMatches: Map<string, ChunkMatch> = new Map();
+    let totalCount = 0;
+    let truncated = false;
+
+    outcomes.forEach((outcome, index) => {
+      const [name] = backends[index];
+
+      if (outcome.status === 'rejected') {
+        const reason = outcome.reason;
+        warnings.push({
+          backend: name,
+          message: reason?.message || String(reason),
+          code: reason?.code
+        });
+        return;
+      }
+
+      const priority = this.storageConfigs.get(name)?.priority ?? 1;
+      totalCount = Math.max(totalCount, outcome.value.totalCount);
+      truncated = truncated || outcome.value.totalCount > outcome.value.memories.length;
+
+      for (const event of outcome.value.memories) {
+        const rank = (event.score || 0) * this.getPriorityWeight(priority);
+        const existing = merged.get(event.id);
+
+        // Deduplicate by event id, keeping the best-ranked copy
+        if (!existing || rank > existing.rank || (rank === existing.rank && priority < existing.priority)) {
+          merged.set(event.id, { event, rank, priority });
+        }
+      }
+
+      for (const match of outcome.value.chunkMatches || []) {
+        const existing = chunkMatches.get(match.memoryId);
+        if (!existing || match.score > existing.score) {
+          chunkMatches.set(match.memoryId, match);
+        }
+      }
+    });
+
+    if (backends.length > 0 && warnings.length === backends.length) {
+      throw new StorageError('All storage backends failed to search', { warnings });
+    }
+
+    // Lazy expiry: memories past their TTL or retention are dealt with as they are read
+    const evicted = await this.expireResults(merged);
+
+    // Authorization rules filter each result, so pages and cursors only cover readable memories
+    const denied: string[] = [];
+    for (const [id, { event }] of merged) {
+      if (caller && !this.canRetrieve(caller, event)) {
+        merged.delete(id);
+        denied.push(id);
+      }
+    }
+    totalCount = Math.max(totalCount - evicted - denied.length, 0);
+
+    return { merged, chunkMatches, warnings, totalCount, truncated, denied };
+  }
+
+  private rankPosition(entry: RankedResult): CursorPosition {
+    return {
+      score: entry.rank,
+      priority: entry.priority,
+      importance: entry.event.metadata.importance,
+      timestamp: new Date(entry.event.timestamp).getTime(),
+      id: entry.event.id
+    };
+  }
+
+  /**
+   * Ranking order of merged results: rank, backend priority, importance, recency, then id
+   */
+  private compareRanked(a: RankedResult | CursorPosition, b: RankedResult | CursorPosition): number {
+    const left = 'event' in a ? this.rankPosition(a) : a;
+    const right = 'event' in b ? this.rankPosition(b) : b;
+
+    if (left.score !== right.score) {
+      return right.score - left.score;
+    }
+    if (left.priority !== right.priority) {
+      return left.priority - right.priority;
+    }
+    if (left.importance !== right.importance) {
+      return right.importance - left.importance;
+    }
+    if (left.timestamp !== right.timestamp) {
+      return right.timestamp - left.timestamp;
+    }
+    return left.id < right.id ? -1 : left.id > right.id ? 1 : 0;
+  }
+
+  private async expandRelated(
+    memories: MemoryEvent[],
+    options: GraphTraversalOptions,
+    scope: FilterExpression | undefined,
+    warnings: SearchWarning[],
+    readable: (memory: MemoryEvent) => boolean
+  ): Promise<RelatedMemory[]> {
+    const graphs = Array.from(this.storageBackends.entries()).filter(([, backend]) => backend.expand);
+    const seeds = memories.map(memory => memory.id);
+    const pageIds = new Set(seeds);
+    if (graphs.length === 0 || seeds.length === 0) {
+      return [];
+    }
+
+    // The limit applies after merging and scoping, so backends return everything they reach
+    const outcomes = await Promise.allSettled(
+      graphs.map(([, backend]) => backend.expand!(seeds, { ...options, limit: undefined }))
+    );
+    const related: Map<string, RelatedMemory> = new Map();
+    const withheld: Set<string> = new Set();
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        warnings.push({
+          backend: graphs[index][0],
+          message: outcome.reason?.message || String(outcome.reason),
+          code: outcome.reason?.code
+        });
+        return;
+      }
+
+      for (const entry of outcome.value) {
+        const existing = related.get(entry.memory.id);
+        // Relationships may lead into namespaces the caller cannot see
+        if (scope && !evaluateFilter(entry.memory, scope)) {
+          continue;
+        }
+        if (pageIds.has(entry.memory.id) || withheld.has(entry.memory.id)) {
+          continue;
+        }
+        // Authorization is checked once per memory, however many backends reach it
+        if (!existing && !readable(entry.memory)) {
+          withheld.add(entry.memory.id);
+          continue;
+        }
+        if (!existing || entry.score > existing.score) {
+          related.set(entry.memory.id, entry);
+        }
+      }
+    });
+
+    const ranked = Array.from(related.values()).sort((a, b) => (b.score - a.score) || (a.hops - b.hops));
+    return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+  }
+
+  private async expireResults(merged: Map<string, RankedResult>): Promise<number> {
+    if (!this.retention) {
+      return 0;
+    }
+
+    const { expired } = this.retention.partition(Array.from(merged.values(), entry => entry.event));
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const { action, demoteTo } = this.retention.expiry;
+    let demoted = false;
+    try {
+      await this.retention.expire(expired);
+      demoted = action === 'demote';
+    } catch (error) {
+      this.emit('expiryFailed', { error });
+    }
+
+    for (const { event } of expired) {
+      if (action === 'evict') {
+        merged.delete(event.id);
+      } else if (demoted) {
+        // Demoted memories remain visible on their new tier
+        merged.get(event.id)!.event = { ...event, metadata: { ...event.metadata, storageTier: demoteTo! } };
+      }
+    }
+
+    return action === 'evict' ? expired.length : 0;
+  }
+
+  private getSearchBackends(query: MemoryQuery): [string, StorageBackend][] {
+    return Array.from(this.storageBackends.entries()).filter(([name, backend]) => {
+      if (!query.storageTiers || query.storageTiers.length === 0) {
+        return true;
+      }
+      const tier = this.storageConfigs.get(name)?.tier ?? backend.type;
+      return query.storageTiers.includes(tier);
+    });
+  }
+
+  private getPriorityWeight(priority: number): number {
+    // Lower priority numbers rank first; each step down costs roughly 10% of the score
+    return 1 / (1 + 0.1 * Math.max(priority - 1, 0));
+  }
+
+  private getRelevantBackends(
+    event: MemoryEvent
+  ): { name: string; backend: StorageBackend; writeMode: WriteMode }[] {
+    const relevant: { name: string; backend: StorageBackend; writeMode: WriteMode }[] = [];
+
+    for (const [name, backend] of this.storageBackends) {
+      const routing = this.storageConfigs.get(name)?.routing;
+
+      // Backends without routing rules accept every event
+      if (!routing || routing.length === 0) {
+        relevant.push({ name, backend, writeMode: 'write-through' });
+        continue;
+      }
+
+      const rule = routing.find(candidate => this.matchesRoutingRule(candidate, event));
+      if (rule) {
+        relevant.push({ name, backend, writeMode: rule.writeMode || 'write-through' });
+      }
+    }
+
+    return relevant;
+  }
+
+  private matchesRoutingRule(rule: RoutingRule, event: MemoryEvent): boolean {
+    if (rule.memoryTypes && rule.memoryTypes.length > 0 && !rule.memoryTypes.includes(event.memoryType)) {
+      return false;
+    }
+    if (rule.storageTiers && rule.storageTiers.length > 0 && !rule.storageTiers.includes(event.metadata.storageTier)) {
+      return false;
+    }
+    return true;
+  }
+
+  private getDefaultTier(type: MemoryType): StorageTier {
+    // The highest-priority backend with a rule naming this memory type decides its tier
+    for (const config of this.storageConfigs.values()) {
+      if (config.routing?.some(rule => rule.memoryTypes?.includes(type))) {
+        return config.tier;
+      }
+    }
+    return StorageTier.MAIN_CONTEXT;
+  }
+
+  private extractKeywords(content: string): string[] {
+    // Simple keyword extraction - in practice, would use NLP
+    return content
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(word => word.length > 3)
+      .slice(0, 10);
+  }
+
+  // Message handlers
+
+  private async handleStoreMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
     const { content, type, sessionId, metadata } = message.params;
-    const memoryId = await this.store(content, type, sessionId, metadata);
+    // Dates arrive as ISO strings
+    const memoryId = await this.store(content, type, sessionId, metadata && reviveEvent({ metadata }).metadata);
     
     return {
       jsonrpc: '2.0',
@@ -367,9 +1753,137 @@ export class MemoryProtocol extends EventEmitter {
     };
   }
 
+  private async handleRetrieveStreamMessage(
+    message: ProtocolMessage,
+    transport: Transport,
+    clientId?: string
+  ): Promise<ProtocolMessage> {
+    if (!transport.streaming) {
+      throw new MemoryProtocolError(`memory/retrieveStream is not supported over ${transport.name}`, 400);
+    }
+    if (message.id === undefined) {
+      throw new MemoryProtocolError('memory/retrieveStream must be sent as a request', 400);
+    }
+
+    const { query, sessionId, options, batchSize } = message.params;
+    const key = this.requestKey(transport, clientId, message.id);
+    if (this.activeRequests.has(key)) {
+      throw new MemoryProtocolError(`Request already in progress: ${message.id}`, 400);
+    }
+
+    const controller = new AbortController();
+    this.activeRequests.set(key, controller);
+
+    try {
+      const stream = this.retrieveStream(query, sessionId, options, { signal: controller.signal, batchSize });
+      const size = Math.max(batchSize || DEFAULT_STREAM_BATCH_SIZE, 1);
+      let batch: MemoryEvent[] = [];
+      let count = 0;
+      let sequence = 0;
+
+      // Each partial notification is awaited, so a slow client slows the scan down
+      const flush = async () => {
+        await transport.send({
+          jsonrpc: '2.0',
+          method: 'memory/retrieveStream/partial',
+          params: { requestId: message.id, sequence: sequence++, memories: batch }
+        }, clientId);
+        batch = [];
+      };
+
+      for await (const memory of stream) {
+        batch.push(memory);
+        count++;
+        if (batch.length >= size) {
+          await flush();
+        }
+      }
+      if (batch.length > 0) {
+        await flush();
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        result: { count, batches: sequence }
+      };
+    } finally {
+      this.activeRequests.delete(key);
+    }
+  }
+
+  private handleCancelRequestMessage(message: ProtocolMessage, transport: Transport, clientId?: string): ProtocolMessage {
+    const requestId = message.params?.id;
+    if (requestId === undefined) {
+      throw new MemoryProtocolError('$/cancelRequest requires the id of the request to cancel', 400);
+    }
+
+    // Clients can only cancel their own requests
+    const controller = this.activeRequests.get(this.requestKey(transport, clientId, requestId));
+    controller?.abort();
+
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      result: { cancelled: controller !== undefined }
+    };
+  }
+
+  /**
+   * Who sent a message: credentials in its own headers come first, then those of
+   * the HTTP request that carried it, then those presented when the client connected
+   */
+  private async authenticateMessage(
+    message: ProtocolMessage,
+    transport: Transport,
+    clientId?: string,
+    headers?: RequestHeaders
+  ): Promise<AuthenticatedPrincipal> {
+    try {
+      const principal = await this.authentication.authenticate(message.headers)
+        ?? await this.authentication.authenticate(headers)
+        ?? (clientId !== undefined ? this.clientPrincipals.get(this.requestKey(transport, clientId, '')) : undefined);
+
+      if (!principal) {
+        throw new AuthenticationError('Authentication required');
+      }
+      if (principal.expiresAt && principal.expiresAt.getTime() <= Date.now()) {
+        throw new AuthenticationError('Credentials have expired');
+      }
+      return principal;
+    } catch (error: any) {
+      this.emit('authenticationFailed', { transport: transport.name, clientId, method: message.method, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Sessions opened over an authenticated transport can only be used by the same user (and agent)
+   */
+  private assertSessionPrincipal(sessionId: string, principal: AuthenticatedPrincipal): void {
+    const context = this.sessions.get(sessionId);
+    if (!context) {
+      return; // Reported as not found by the method itself
+    }
+
+    const bound = this.sessionPrincipals.get(sessionId);
+    if (!bound || context.userId !== principal.userId
+      || (principal.agentId !== undefined && context.agentId !== principal.agentId)) {
+      throw new AuthorizationError('Session belongs to another principal', { sessionId });
+    }
+
+    // Refreshed credentials carry the current claims
+    this.sessionPrincipals.set(sessionId, principal);
+  }
+
+  private requestKey(transport: Transport, clientId: string | undefined, requestId: string | number): string {
+    return `${transport.name}\u0000${clientId ?? ''}\u0000${requestId}`;
+  }
+
   private async handleUpdateMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
     const { memoryId, updates, sessionId } = message.params;
-    await this.update(memoryId, updates, sessionId);
+    // Dates arrive as ISO strings
+    await this.update(memoryId, updates && reviveEvent(updates), sessionId);
     
     return {
       jsonrpc: '2.0',
@@ -389,9 +1903,23 @@ export class MemoryProtocol extends EventEmitter {
     };
   }
 
-  private async handleCreateSessionMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
+  private async handleCreateSessionMessage(
+    message: ProtocolMessage,
+    principal?: AuthenticatedPrincipal
+  ): Promise<ProtocolMessage> {
     const { userId, agentId } = message.params || {};
-    const sessionId = await this.createSession(userId, agentId);
+    let sessionId: string;
+
+    if (principal) {
+      // The session belongs to the authenticated user, whatever the params say
+      if ((userId !== undefined && userId !== principal.userId)
+        || (agentId !== undefined && principal.agentId !== undefined && agentId !== principal.agentId)) {
+        throw new AuthorizationError('Sessions can only be opened for the authenticated user and agent');
+      }
+      sessionId = this.openSession(principal.userId, principal.agentId ?? agentId, principal);
+    } else {
+      sessionId = await this.createSession(userId, agentId);
+    }
     
     return {
       jsonrpc: '2.0',
@@ -410,4 +1938,31 @@ export class MemoryProtocol extends EventEmitter {
       result: { success: true }
     };
   }
+
+  // Remote calls always act through a session, never as a trusted caller
+  private async handleExportUserMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
+    const { userId, sessionId } = message.params || {};
+    if (sessionId === undefined) {
+      throw new MemoryProtocolError('sessionId is required', 400);
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      result: await this.exportUser(userId, sessionId)
+    };
+  }
+
+  private async handleForgetUserMessage(message: ProtocolMessage): Promise<ProtocolMessage> {
+    const { userId, sessionId } = message.params || {};
+    if (sessionId === undefined) {
+      throw new MemoryProtocolError('sessionId is required', 400);
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      result: await this.forgetUser(userId, sessionId)
+    };
+  }
 }
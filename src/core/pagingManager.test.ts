@@ -0,0 +1,207 @@
+import { EventEmitter } from 'events';
+import { MemoryProtocol } from './memoryProtocol.js';
+import { PagingHost, PagingManager, TierMove } from './pagingManager.js';
+import { InMemoryBackend } from '../storage/inMemoryBackend.js';
+import {
+  MemoryEvent,
+  MemoryEventType,
+  MemoryProtocolConfig,
+  MemoryType,
+  StorageTier,
+  Transport
+} from './types.js';
+
+let backendCount = 0;
+
+function createConfig(): MemoryProtocolConfig {
+  return {
+    version: '1.0.0',
+    transports: [],
+    storage: [
+      { backend: 'in-memory', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: `paging-${++backendCount}` } }
+    ],
+    security: {
+      authentication: { type: 'jwt', options: {} },
+      authorization: { enabled: false, rules: [] },
+      encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false }
+    },
+    processing: {
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
+      deduplication: { enabled: false, threshold: 0.9 }
+    },
+    consolidation: {
+      enabled: false,
+      strategy: 'hybrid',
+      interval: 3600,
+      batchSize: 100,
+      retention: { working: -1, episodic: -1, semantic: -1, procedural: -1, archival: -1 }
+    },
+    paging: { enabled: true, mainContextCapacity: 1, interval: 0 }
+  };
+}
+
+function eventOf(id: string, importance: number, storageTier = StorageTier.MAIN_CONTEXT): MemoryEvent {
+  const now = new Date();
+  return {
+    id,
+    type: MemoryEventType.STORE,
+    memoryType: MemoryType.SEMANTIC,
+    context: { version: '1.0.0', sessionId: 's', memoryId: id, flags: '', state: {}, timestamp: now, userId: 'alice' },
+    content: { text: `Memory ${id}` },
+    metadata: {
+      source: 'user',
+      confidence: 1,
+      importance,
+      accessCount: 0,
+      lastAccessed: now,
+      created: now,
+      updated: now,
+      storageTier
+    },
+    timestamp: now
+  };
+}
+
+// Replies are returned by handleMessage, so nothing is ever sent
+const transport: Transport = Object.assign(new EventEmitter(), {
+  name: 'test',
+  connect: async () => undefined,
+  disconnect: async () => undefined,
+  send: async () => undefined,
+  isConnected: () => true
+});
+
+describe('PagingManager', () => {
+  let backend: InMemoryBackend;
+  let moves: TierMove[];
+  let expired: Set<string>;
+  let host: PagingHost;
+
+  beforeEach(async () => {
+    backend = new InMemoryBackend();
+    await backend.initialize();
+    moves = [];
+    expired = new Set();
+
+    host = {
+      getBackends: () => [['memory', backend]],
+      moveMemory: (event, tier) => backend.update(event.id, { metadata: { ...event.metadata, storageTier: tier } }),
+      isExpired: (event) => expired.has(event.id),
+      onMoved: (move) => moves.push(move),
+      onError: (error) => { throw error; }
+    };
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  const tiers = async () =>
+    Object.fromEntries((await backend.list(0, 100)).map(event => [event.id, event.metadata.storageTier]));
+
+  it('demotes the lowest-scoring memories to keep main context within its capacity', async () => {
+    for (const [id, importance] of [['high', 0.9], ['medium', 0.5], ['low', 0.1]] as const) {
+      await backend.store(eventOf(id, importance));
+    }
+    const paging = new PagingManager({ enabled: true, mainContextCapacity: 2, interval: 0 }, host);
+
+    await expect(paging.rebalance()).resolves.toEqual({ promoted: [], demoted: ['low'], mainContextSize: 2 });
+    expect(await tiers()).toEqual({
+      high: StorageTier.MAIN_CONTEXT,
+      medium: StorageTier.MAIN_CONTEXT,
+      low: StorageTier.EXTERNAL_CONTEXT
+    });
+    expect(moves).toEqual([
+      { memoryId: 'low', from: StorageTier.MAIN_CONTEXT, to: StorageTier.EXTERNAL_CONTEXT, score: expect.any(Number) }
+    ]);
+  });
+
+  it('promotes memories that clear the promotion threshold while there is room', async () => {
+    await backend.store(eventOf('resident', 0.1));
+    await backend.store(eventOf('important', 0.9, StorageTier.EXTERNAL_CONTEXT));
+    await backend.store(eventOf('marginal', 0.2, StorageTier.EXTERNAL_CONTEXT));
+    const paging = new PagingManager({ enabled: true, mainContextCapacity: 3, interval: 0 }, host);
+
+    await expect(paging.rebalance()).resolves.toEqual({ promoted: ['important'], demoted: [], mainContextSize: 2 });
+    expect((await tiers()).marginal).toBe(StorageTier.EXTERNAL_CONTEXT);
+  });
+
+  it('does not promote expired memories', async () => {
+    await backend.store(eventOf('important', 0.9, StorageTier.EXTERNAL_CONTEXT));
+    expired.add('important');
+    const paging = new PagingManager({ enabled: true, mainContextCapacity: 1, interval: 0 }, host);
+
+    await expect(paging.rebalance()).resolves.toEqual({ promoted: [], demoted: [], mainContextSize: 0 });
+  });
+
+  it('scores importance, recency of access and access count', () => {
+    const paging = new PagingManager({ enabled: true, mainContextCapacity: 1 }, host);
+    const fresh = eventOf('fresh', 0.5);
+    const stale = eventOf('stale', 0.5);
+    stale.metadata.lastAccessed = new Date(Date.now() - 7 * 86400 * 1000);
+
+    expect(paging.score(fresh)).toBeCloseTo(0.4 * 0.5 + 0.3, 5);
+    expect(paging.score(stale)).toBeLessThan(paging.score(fresh));
+    expect(paging.score({ ...fresh, metadata: { ...fresh.metadata, accessCount: 3 } })).toBeGreaterThan(paging.score(fresh));
+  });
+});
+
+describe('MemoryProtocol paging', () => {
+  let protocol: MemoryProtocol;
+
+  beforeEach(async () => {
+    protocol = new MemoryProtocol(createConfig());
+    await protocol.initialize();
+  });
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  it('scores memories whose metadata was updated over JSON-RPC', async () => {
+    const sessionId = await protocol.createSession('alice');
+    const kept = await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, sessionId);
+    const paged = await protocol.store('Alice once mentioned the weather', MemoryType.SEMANTIC, sessionId);
+    await protocol.flushWrites();
+
+    const [memory] = (await protocol.retrieve('', sessionId, { id: kept })).memories;
+    // Dates are sent as ISO strings
+    const metadata = JSON.parse(JSON.stringify({ ...memory.metadata, importance: 1 }));
+    const response = await protocol.handleMessage(
+      { jsonrpc: '2.0', id: 1, method: 'memory/update', params: { memoryId: kept, updates: { metadata }, sessionId } },
+      transport
+    );
+    expect(response.error).toBeUndefined();
+
+    await expect(protocol.rebalanceTiers()).resolves.toMatchObject({ demoted: [paged], mainContextSize: 1 });
+  });
+
+  it('moves paged memories to the backend that holds their new tier', async () => {
+    await protocol.shutdown();
+    const [mainName, externalName] = [`paging-${++backendCount}`, `paging-${++backendCount}`];
+    const config = createConfig();
+    config.storage = [
+      { backend: 'in-memory', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: mainName },
+        routing: [{ storageTiers: [StorageTier.MAIN_CONTEXT] }] },
+      { backend: 'in-memory', tier: StorageTier.EXTERNAL_CONTEXT, priority: 2, options: { name: externalName },
+        routing: [{ storageTiers: [StorageTier.EXTERNAL_CONTEXT] }] }
+    ];
+    protocol = new MemoryProtocol(config);
+    await protocol.initialize();
+
+    const sessionId = await protocol.createSession('alice');
+    const kept = await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, sessionId, { importance: 0.9 });
+    const paged = await protocol.store('Alice once mentioned the weather', MemoryType.SEMANTIC, sessionId, { importance: 0.1 });
+    await protocol.flushWrites();
+
+    await expect(protocol.rebalanceTiers()).resolves.toMatchObject({ demoted: [paged] });
+
+    const [main, external] = [protocol.getStorageBackend(mainName)!, protocol.getStorageBackend(externalName)!];
+    expect((await main.list!()).map(event => event.id)).toEqual([kept]);
+    expect((await external.list!()).map(event => [event.id, event.metadata.storageTier])).toEqual([[paged, StorageTier.EXTERNAL_CONTEXT]]);
+
+    const [memory] = (await protocol.retrieve('weather', sessionId)).memories;
+    expect(memory).toMatchObject({ id: paged, content: { text: 'Alice once mentioned the weather' } });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  MemoryEvent,
+  PagingConfig,
+  StorageBackend,
+  StorageTier
+} from './types.js';
+
+export interface TierMove {
+  memoryId: string;
+  from: StorageTier;
+  to: StorageTier;
+  score: number;
+}
+
+export interface PagingResult {
+  promoted: string[];
+  demoted: string[];
+  mainContextSize: number; // Memories on MAIN_CONTEXT after the pass
+}
+
+/**
+ * Operations the paging manager needs from the protocol
+ */
+export interface PagingHost {
+  getBackends(): [string, StorageBackend][];
+  moveMemory(event: MemoryEvent, tier: StorageTier): Promise<void>;
+  isExpired(event: MemoryEvent): boolean;
+  onMoved(move: TierMove): void;
+  onError(error: Error): void;
+}
+
+const RECENCY_HALF_LIFE = 86400; // seconds
+const LIST_BATCH_SIZE = 500;
+
+/**
+ * Pages memories between MAIN_CONTEXT and EXTERNAL_CONTEXT
+ * Memories are scored on importance, recency of access and access count.
+ * The best-scoring ones are kept on MAIN_CONTEXT up to its capacity; separate
+ * promotion and demotion thresholds keep memories near the cut-off from flapping.
+ */
+export class PagingManager {
+  private config: PagingConfig;
+  private host: PagingHost;
+  private weights: { importance: number; recency: number; accessCount: number };
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<PagingResult> | null = null;
+
+  constructor(config: PagingConfig, host: PagingHost) {
+    this.config = config;
+    this.host = host;
+    this.weights = {
+      importance: config.weights?.importance ?? 0.4,
+      recency: config.weights?.recency ?? 0.3,
+      accessCount: config.weights?.accessCount ?? 0.3
+    };
+  }
+
+  start(): void {
+    const interval = this.config.interval ?? 300;
+    if (this.timer || interval <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.running) {
+        this.rebalance().catch(error => this.host.onError(error));
+      }
+    }, interval * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the schedule and wait for a pass in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Run one paging pass over every backend that can enumerate its events
+   */
+  async rebalance(): Promise<PagingResult> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = this.page().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Paging score of a memory (0-1, higher belongs in main context)
+   */
+  score(event: MemoryEvent, now: Date = new Date()): number {
+    const total = this.weights.importance + this.weights.recency + this.weights.accessCount;
+    if (total <= 0) {
+      return 0;
+    }
+
+    const ageSeconds = Math.max(0, (now.getTime() - event.metadata.lastAccessed.getTime()) / 1000);
+    const recency = Math.pow(0.5, ageSeconds / RECENCY_HALF_LIFE);
+    // Saturating: the first few accesses count the most
+    const access = 1 - 1 / (1 + event.metadata.accessCount);
+
+    return (this.weights.importance * event.metadata.importance
+      + this.weights.recency * recency
+      + this.weights.accessCount * access) / total;
+  }
+
+  // Private helper methods
+
+  private async page(): Promise<PagingResult> {
+    const now = new Date();
+    const promoteThreshold = this.config.promoteThreshold ?? 0.6;
+    const demoteThreshold = this.config.demoteThreshold ?? 0.3;
+
+    const scored = Array.from((await this.collect()).values(), event => ({
+      event,
+      score: this.score(event, now)
+    }));
+
+    // Main context keeps what clears the demotion bar and gains what clears the promotion bar
+    const candidates = scored
+      .filter(({ event, score }) => event.metadata.storageTier === StorageTier.MAIN_CONTEXT
+        ? score >= demoteThreshold
+        : score >= promoteThreshold && !this.host.isExpired(event))
+      .sort((a, b) => (b.score - a.score) || a.event.id.localeCompare(b.event.id));
+    const resident = new Set(
+      candidates.slice(0, Math.max(this.config.mainContextCapacity, 0)).map(({ event }) => event.id)
+    );
+
+    const result: PagingResult = { promoted: [], demoted: [], mainContextSize: resident.size };
+
+    // Demote first so main context never holds more than its budget
+    for (const { event, score } of scored) {
+      if (event.metadata.storageTier === StorageTier.MAIN_CONTEXT && !resident.has(event.id)) {
+        await this.move(event, StorageTier.EXTERNAL_CONTEXT, score);
+        result.demoted.push(event.id);
+      }
+    }
+
+    for (const { event, score } of scored) {
+      if (event.metadata.storageTier === StorageTier.EXTERNAL_CONTEXT && resident.has(event.id)) {
+        await this.move(event, StorageTier.MAIN_CONTEXT, score);
+        result.promoted.push(event.id);
+      }
+    }
+
+    return result;
+  }
+
+  private async move(event: MemoryEvent, to: StorageTier, score: number): Promise<void> {
+    const from = event.metadata.storageTier;
+    await this.host.moveMemory(event, to);
+    this.host.onMoved({ memoryId: event.id, from, to, score });
+  }
+
+  private async collect(): Promise<Map<string, MemoryEvent>> {
+    // Backends keep their own access statistics, so copies of a memory are combined
+    const events = new Map<string, MemoryEvent>();
+
+    for (const [, backend] of this.host.getBackends()) {
+      if (!backend.list) {
+        continue;
+      }
+
+      for (let offset = 0; ; offset += LIST_BATCH_SIZE) {
+        const batch = await backend.list(offset, LIST_BATCH_SIZE);
+
+        for (const event of batch) {
+          const tier = event.metadata.storageTier;
+          if (tier !== StorageTier.MAIN_CONTEXT && tier !== StorageTier.EXTERNAL_CONTEXT) {
+            continue;
+          }
+
+          const existing = events.get(event.id);
+          if (!existing) {
+            events.set(event.id, event);
+            continue;
+          }
+
+          events.set(event.id, {
+            ...existing,
+            metadata: {
+              ...existing.metadata,
+              accessCount: Math.max(existing.metadata.accessCount, event.metadata.accessCount),
+              lastAccessed: existing.metadata.lastAccessed > event.metadata.lastAccessed
+                ? existing.metadata.lastAccessed
+                : event.metadata.lastAccessed
+            }
+          });
+        }
+
+        if (batch.length < LIST_BATCH_SIZE) {
+          break;
+        }
+      }
+    }
+
+    return events;
+  }
+}
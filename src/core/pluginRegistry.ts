@@ -0,0 +1,154 @@
+import {
+  EmbeddingProvider,
+  ProcessingConfig,
+  StorageBackend,
+  StorageConfig,
+  Transport,
+  TransportConfig,
+  MemoryProtocolError
+} from './types.js';
+import { InMemoryBackend } from '../storage/inMemoryBackend.js';
+import { VectorStoreBackend } from '../storage/vectorStoreBackend.js';
+import { FileBackend, FileBackendOptions } from '../storage/fileBackend.js';
+import { SqliteBackend, SqliteBackendOptions } from '../storage/sqliteBackend.js';
+import { GraphStoreBackend } from '../storage/graphStoreBackend.js';
+import { TemporalStoreBackend } from '../storage/temporalStoreBackend.js';
+import { WebSocketTransport, WebSocketServerTransport } from '../transport/websocketTransport.js';
+import { StdioTransport } from '../transport/stdioTransport.js';
+import { HttpTransport } from '../transport/httpTransport.js';
+import { HashingEmbeddingProvider } from '../processing/embedding.js';
+
+export type StorageBackendFactory = (
+  options: Record<string, any>,
+  config: StorageConfig
+) => StorageBackend | Promise<StorageBackend>;
+
+export type TransportFactory = (
+  options: Record<string, any>,
+  config: TransportConfig
+) => Transport | Promise<Transport>;
+
+export type EmbeddingProviderFactory = (
+  config: ProcessingConfig['embedding']
+) => EmbeddingProvider | Promise<EmbeddingProvider>;
+
+/**
+ * Registry of storage backend and transport factories
+ * Turns configuration entries into live instances during protocol initialization
+ */
+export class PluginRegistry {
+  private storageFactories: Map<string, StorageBackendFactory> = new Map();
+  private transportFactories: Map<string, TransportFactory> = new Map();
+  private embeddingFactories: Map<string, EmbeddingProviderFactory> = new Map();
+
+  /**
+   * Register a storage backend factory under a backend name
+   */
+  registerStorageBackend(name: string, factory: StorageBackendFactory): void {
+    this.storageFactories.set(name, factory);
+  }
+
+  /**
+   * Register a transport factory under a transport type
+   */
+  registerTransport(type: string, factory: TransportFactory): void {
+    this.transportFactories.set(type, factory);
+  }
+
+  /**
+   * Register an embedding provider factory under a model name
+   */
+  registerEmbeddingProvider(model: string, factory: EmbeddingProviderFactory): void {
+    this.embeddingFactories.set(model, factory);
+  }
+
+  hasStorageBackend(name: string): boolean {
+    return this.storageFactories.has(name);
+  }
+
+  hasTransport(type: string): boolean {
+    return this.transportFactories.has(type);
+  }
+
+  hasEmbeddingProvider(model: string): boolean {
+    return this.embeddingFactories.has(model);
+  }
+
+  getStorageBackendNames(): string[] {
+    return Array.from(this.storageFactories.keys());
+  }
+
+  getTransportTypes(): string[] {
+    return Array.from(this.transportFactories.keys());
+  }
+
+  /**
+   * Create a storage backend from a StorageConfig entry
+   */
+  async createStorageBackend(config: StorageConfig): Promise<StorageBackend> {
+    const factory = this.storageFactories.get(config.backend);
+    if (!factory) {
+      throw new MemoryProtocolError(
+        `Unknown storage backend: ${config.backend}`,
+        400,
+        { backend: config.backend, available: this.getStorageBackendNames() }
+      );
+    }
+
+    return factory(config.options || {}, config);
+  }
+
+  /**
+   * Create a transport from a TransportConfig entry
+   */
+  async createTransport(config: TransportConfig): Promise<Transport> {
+    const factory = this.transportFactories.get(config.type);
+    if (!factory) {
+      throw new MemoryProtocolError(
+        `Unknown transport type: ${config.type}`,
+        400,
+        { transport: config.type, available: this.getTransportTypes() }
+      );
+    }
+
+    return factory(config.options || {}, config);
+  }
+
+  /**
+   * Create the embedding provider for ProcessingConfig.embedding.model,
+   * or undefined when no provider is registered for that model
+   */
+  async createEmbeddingProvider(config: ProcessingConfig['embedding']): Promise<EmbeddingProvider | undefined> {
+    const factory = this.embeddingFactories.get(config.model);
+    return factory ? factory(config) : undefined;
+  }
+}
+
+/**
+ * Create a registry with the built-in backends and transports registered
+ */
+export function createDefaultRegistry(): PluginRegistry {
+  const registry = new PluginRegistry();
+
+  registry.registerStorageBackend('in-memory', (options) => new InMemoryBackend(options));
+  registry.registerStorageBackend('vector-store', (options) => new VectorStoreBackend(options));
+  registry.registerStorageBackend('graph-store', (options) => new GraphStoreBackend(options));
+  registry.registerStorageBackend('temporal-store', (options) => new TemporalStoreBackend(options));
+  registry.registerStorageBackend('file', (options) => new FileBackend(options as FileBackendOptions));
+  registry.registerStorageBackend('sqlite', (options) => new SqliteBackend(options as SqliteBackendOptions));
+
+  registry.registerEmbeddingProvider('local-hash', (config) =>
+    new HashingEmbeddingProvider({ dimensions: config.dimensions })
+  );
+
+  registry.registerTransport('stdio', (options) => new StdioTransport(options));
+  registry.registerTransport('websocket', (options) =>
+    options.url
+      ? new WebSocketTransport(options.url, options)
+      : new WebSocketServerTransport(options.port ?? 8080, options)
+  );
+  registry.registerTransport('http', (options) => new HttpTransport({ ...options, sse: options.sse ?? false }));
+  registry.registerTransport('sse', (options) => new HttpTransport({ ...options, sse: true }));
+
+  return registry;
+}
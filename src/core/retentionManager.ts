@@ -0,0 +1,218 @@
+import {
+  ConsolidationConfig,
+  ExpiryConfig,
+  MemoryEvent,
+  MemoryType,
+  StorageBackend,
+  StorageTier,
+  DEFAULT_TTL
+} from './types.js';
+
+export type ExpiryReason = 'ttl' | 'retention';
+
+export interface EvictionNotice {
+  memoryId: string;
+  memoryType: MemoryType;
+  reason: ExpiryReason;
+  action: ExpiryConfig['action'];
+  storageTier?: StorageTier; // Tier the memory was demoted to
+}
+
+/**
+ * Operations the retention manager needs from the protocol
+ */
+export interface RetentionHost {
+  getBackends(): [string, StorageBackend][];
+  evictMemory(id: string): Promise<void>;
+  demoteMemory(event: MemoryEvent, tier: StorageTier): Promise<void>;
+  onExpired(notice: EvictionNotice): void;
+  onError(error: Error): void;
+}
+
+const SWEEP_BATCH_SIZE = 500;
+
+/**
+ * Enforces MemoryEvent.ttl and ConsolidationConfig.retention
+ * A memory expires once it outlives its TTL (from its timestamp) or the retention
+ * period of its memory type (from its creation); -1 retains forever.
+ * Nothing expires unless ConsolidationConfig.expiry is set.
+ */
+export class RetentionManager {
+  public readonly enabled: boolean;
+  public readonly expiry: ExpiryConfig;
+
+  private retention: ConsolidationConfig['retention'] | undefined;
+  private sweepInterval: number;
+  private host: RetentionHost;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<number> | null = null;
+
+  constructor(config: ConsolidationConfig | undefined, host: RetentionHost) {
+    this.enabled = !!config?.expiry;
+    this.retention = config?.retention;
+    this.expiry = {
+      mode: config?.expiry?.mode || 'lazy',
+      action: config?.expiry?.action || 'evict',
+      demoteTo: config?.expiry?.demoteTo || StorageTier.EXTERNAL_CONTEXT
+    };
+    this.sweepInterval = config?.expiry?.sweepInterval || config?.interval || 3600;
+    this.host = host;
+  }
+
+  /**
+   * TTL assigned to newly stored memories of a type
+   */
+  getTtl(type: MemoryType): number | undefined {
+    const period = this.retention?.[type];
+    if (!this.enabled || period === -1) {
+      return undefined;
+    }
+    if (period && period > 0) {
+      return period;
+    }
+    // Archival memories are kept unless given a retention period of their own
+    return type === MemoryType.ARCHIVAL ? undefined : DEFAULT_TTL;
+  }
+
+  /**
+   * Why a memory has expired, or null while it is still live
+   */
+  expiryReason(event: MemoryEvent, now: Date = new Date()): ExpiryReason | null {
+    if (!this.enabled) {
+      return null;
+    }
+
+    // Demoted memories have already been dealt with
+    if (this.expiry.action === 'demote' && event.metadata.storageTier === this.expiry.demoteTo) {
+      return null;
+    }
+
+    if (event.ttl !== undefined && event.ttl >= 0
+      && now.getTime() - event.timestamp.getTime() > event.ttl * 1000) {
+      return 'ttl';
+    }
+
+    const period = this.retention?.[event.memoryType];
+    if (period !== undefined && period > 0
+      && now.getTime() - event.metadata.created.getTime() > period * 1000) {
+      return 'retention';
+    }
+
+    return null;
+  }
+
+  /**
+   * Split events into live and expired ones, as done at read time
+   */
+  partition(events: MemoryEvent[], now: Date = new Date()): {
+    live: MemoryEvent[];
+    expired: { event: MemoryEvent; reason: ExpiryReason }[];
+  } {
+    const live: MemoryEvent[] = [];
+    const expired: { event: MemoryEvent; reason: ExpiryReason }[] = [];
+
+    for (const event of events) {
+      const reason = this.expiryReason(event, now);
+      if (reason) {
+        expired.push({ event, reason });
+      } else {
+        live.push(event);
+      }
+    }
+
+    return { live, expired };
+  }
+
+  /**
+   * Evict or demote expired memories
+   */
+  async expire(expired: { event: MemoryEvent; reason: ExpiryReason }[]): Promise<void> {
+    for (const { event, reason } of expired) {
+      if (this.expiry.action === 'demote') {
+        await this.host.demoteMemory(event, this.expiry.demoteTo!);
+      } else {
+        await this.host.evictMemory(event.id);
+      }
+
+      this.host.onExpired({
+        memoryId: event.id,
+        memoryType: event.memoryType,
+        reason,
+        action: this.expiry.action,
+        ...(this.expiry.action === 'demote' ? { storageTier: this.expiry.demoteTo } : {})
+      });
+    }
+  }
+
+  start(): void {
+    if (this.timer || !this.enabled || this.expiry.mode !== 'active') {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.sweeping) {
+        this.sweep().catch(error => this.host.onError(error));
+      }
+    }, this.sweepInterval * 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the sweeper and wait for a sweep in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.sweeping) {
+      await this.sweeping.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Scan every backend that can enumerate its events and expire what is due
+   * @returns The number of memories expired
+   */
+  async sweep(): Promise<number> {
+    if (this.sweeping) {
+      return this.sweeping;
+    }
+
+    this.sweeping = this.sweepBackends().finally(() => {
+      this.sweeping = null;
+    });
+    return this.sweeping;
+  }
+
+  private async sweepBackends(): Promise<number> {
+    const handled = new Set<string>();
+    const now = new Date();
+
+    for (const [, backend] of this.host.getBackends()) {
+      if (!backend.list) {
+        continue;
+      }
+
+      // Collect first, then expire, so deletions do not shift the pages being read
+      const due: { event: MemoryEvent; reason: ExpiryReason }[] = [];
+      for (let offset = 0; ; offset += SWEEP_BATCH_SIZE) {
+        const batch = await backend.list(offset, SWEEP_BATCH_SIZE);
+        for (const entry of this.partition(batch, now).expired) {
+          if (!handled.has(entry.event.id)) {
+            handled.add(entry.event.id);
+            due.push(entry);
+          }
+        }
+        if (batch.length < SWEEP_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      await this.expire(due);
+    }
+
+    return handled.size;
+  }
+}
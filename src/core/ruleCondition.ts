@@ -0,0 +1,376 @@
+import { MemoryProtocolError } from './types.js';
+import { toTime } from '../storage/filterExpression.js';
+
+/**
+ * A parsed authorization condition, evaluated against named variables
+ */
+export type CompiledCondition = (variables: Record<string, unknown>) => boolean;
+
+type Node =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; segments: string[] }
+  | { kind: 'list'; items: Node[] }
+  | { kind: 'call'; target: Node; method: string; args: Node[] }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Node; right: Node };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains';
+
+interface Token {
+  type: 'string' | 'number' | 'identifier' | 'punctuation' | 'end';
+  value: string;
+  position: number;
+}
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=', 'in', 'contains']);
+const METHODS = new Set(['includes', 'startsWith', 'endsWith']);
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+const PUNCTUATION = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+
+/**
+ * Parse a condition such as `user.id == context.userId && memory.tags contains 'shared'`
+ * Conditions combine dotted paths, string/number/boolean/null literals and lists with
+ * ==, !=, <, <=, >, >=, in, contains, &&, || and !, plus the includes, startsWith and
+ * endsWith methods. Nothing is executed; a path that does not resolve is undefined.
+ */
+export function compileCondition(source: string): CompiledCondition {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new MemoryProtocolError('Authorization condition must be a non-empty string', 400, { condition: source });
+  }
+
+  const parser = new Parser(source);
+  const tree = parser.parse();
+  return (variables) => truthy(evaluate(tree, variables));
+}
+
+// Parsing
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    const node = this.parseOr();
+    this.expect('end');
+    return node;
+  }
+
+  private parseOr(): Node {
+    let node = this.parseAnd();
+    while (this.accept('||')) {
+      node = { kind: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): Node {
+    let node = this.parseUnary();
+    while (this.accept('&&')) {
+      node = { kind: 'and', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): Node {
+    if (this.accept('!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parsePostfix();
+    const token = this.peek();
+
+    if ((token.type === 'punctuation' || token.type === 'identifier') && COMPARISON_OPERATORS.has(token.value)) {
+      this.index++;
+      const right = this.parsePostfix();
+      return { kind: 'compare', operator: token.value as ComparisonOperator, left, right };
+    }
+    return left;
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    while (this.accept('.')) {
+      const name = this.expect('identifier');
+      if (this.accept('(')) {
+        if (!METHODS.has(name.value)) {
+          throw this.error(name, `unknown method ${name.value}; supported methods are ${Array.from(METHODS).join(', ')}`);
+        }
+        node = { kind: 'call', target: node, method: name.value, args: this.parseList(')') };
+      } else if (node.kind === 'path') {
+        node = { kind: 'path', segments: [...node.segments, name.value] };
+      } else {
+        throw this.error(name, 'properties can only follow a path');
+      }
+    }
+    return node;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'identifier':
+        if (token.value in KEYWORDS) {
+          return { kind: 'literal', value: KEYWORDS[token.value] };
+        }
+        if (COMPARISON_OPERATORS.has(token.value)) {
+          break;
+        }
+        return { kind: 'path', segments: [token.value] };
+      case 'punctuation':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { kind: 'list', items: this.parseList(']') };
+        }
+        break;
+    }
+
+    throw this.error(token, token.type === 'end' ? 'unexpected end of condition' : `unexpected '${token.value}'`);
+  }
+
+  private parseList(close: string): Node[] {
+    const items: Node[] = [];
+    if (this.accept(close)) {
+      return items;
+    }
+
+    do {
+      items.push(this.parseOr());
+    } while (this.accept(','));
+    this.expect(close);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(punctuation: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === punctuation) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(expected: string): Token {
+    const token = this.peek();
+    const matches = expected === 'end' || expected === 'identifier'
+      ? token.type === expected
+      : token.type === 'punctuation' && token.value === expected;
+
+    if (!matches) {
+      const wanted = expected === 'end' ? 'end of condition' : expected === 'identifier' ? 'a name' : `'${expected}'`;
+      throw this.error(token, `expected ${wanted}`);
+    }
+    return this.next();
+  }
+
+  private error(token: Token, reason: string): MemoryProtocolError {
+    return invalid(this.source, token.position, reason);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '"' || char === '\'') {
+      let value = '';
+      let end = position + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end++;
+        }
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw invalid(source, position, 'unterminated string');
+      }
+      tokens.push({ type: 'string', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(position));
+    if (number && (char !== '-' || !endsOperand(tokens))) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const punctuation = PUNCTUATION.find(candidate => source.startsWith(candidate, position));
+    if (!punctuation) {
+      throw invalid(source, position, `unexpected character '${char}'`);
+    }
+    tokens.push({ type: 'punctuation', value: punctuation, position });
+    position += punctuation.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+// Whether the previous token ends a value, making a following '-' an operator rather than a sign
+function endsOperand(tokens: Token[]): boolean {
+  const last = tokens[tokens.length - 1];
+  if (!last || COMPARISON_OPERATORS.has(last.value)) {
+    return false;
+  }
+  return last.type !== 'punctuation' || last.value === ')' || last.value === ']';
+}
+
+function invalid(source: string, position: number, reason: string): MemoryProtocolError {
+  return new MemoryProtocolError(
+    `Invalid authorization condition at position ${position}: ${reason}`,
+    400,
+    { condition: source, position }
+  );
+}
+
+// Evaluation
+
+function evaluate(node: Node, variables: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return node.segments.reduce<unknown>(property, variables);
+    case 'list':
+      return node.items.map(item => evaluate(item, variables));
+    case 'call':
+      return callMethod(evaluate(node.target, variables), node.method, node.args.map(arg => evaluate(arg, variables)));
+    case 'not':
+      return !truthy(evaluate(node.operand, variables));
+    case 'and':
+      return truthy(evaluate(node.left, variables)) && truthy(evaluate(node.right, variables));
+    case 'or':
+      return truthy(evaluate(node.left, variables)) || truthy(evaluate(node.right, variables));
+    case 'compare':
+      return compareValues(node.operator, evaluate(node.left, variables), evaluate(node.right, variables));
+  }
+}
+
+// Own properties only, so conditions cannot reach prototypes
+function property(value: unknown, name: string): unknown {
+  if ((typeof value === 'string' || Array.isArray(value)) && name === 'length') {
+    return value.length;
+  }
+  if (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, name)) {
+    return (value as Record<string, unknown>)[name];
+  }
+  return undefined;
+}
+
+function callMethod(target: unknown, method: string, args: unknown[]): boolean {
+  const [argument] = args;
+
+  switch (method) {
+    case 'includes':
+      return Array.isArray(target)
+        ? target.some(item => equals(item, argument))
+        : typeof target === 'string' && typeof argument === 'string' && target.includes(argument);
+    case 'startsWith':
+      return typeof target === 'string' && typeof argument === 'string' && target.startsWith(argument);
+    case 'endsWith':
+      return typeof target === 'string' && typeof argument === 'string' && target.endsWith(argument);
+    default:
+      return false;
+  }
+}
+
+function compareValues(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+      return callMethod(right, 'includes', [left]);
+    case 'contains':
+      return callMethod(left, 'includes', [right]);
+    default: {
+      const order = compare(left, right);
+      if (order === undefined) {
+        return false;
+      }
+      return operator === '<' ? order < 0
+        : operator === '<=' ? order <= 0
+        : operator === '>' ? order > 0
+        : order >= 0;
+    }
+  }
+}
+
+// Missing values equal null, so an anonymous caller matches memories without a user
+function equals(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const time = toTime(a);
+    return time !== undefined && time === toTime(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => equals(item, b[index]));
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date || b instanceof Date) {
+    const left = toTime(a);
+    const right = toTime(b);
+    return left !== undefined && right !== undefined ? left - right : undefined;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
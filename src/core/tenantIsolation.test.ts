@@ -0,0 +1,177 @@
+import { MemoryProtocol } from './memoryProtocol.js';
+import { MemoryEvent, MemoryProtocolConfig, MemoryType, StorageTier } from './types.js';
+
+let backendCount = 0;
+
+function createConfig(agentIsolation = false): MemoryProtocolConfig {
+  return {
+    version: '1.0.0',
+    transports: [],
+    storage: [
+      { backend: 'in-memory', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: `isolation-${++backendCount}` } }
+    ],
+    security: {
+      authentication: { type: 'jwt', options: {} },
+      authorization: { enabled: false, rules: [] },
+      encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false },
+      isolation: { enabled: true, agentIsolation }
+    },
+    processing: {
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
+      deduplication: { enabled: false, threshold: 0.9 }
+    },
+    consolidation: {
+      enabled: false,
+      strategy: 'hybrid',
+      interval: 3600,
+      batchSize: 100,
+      retention: { working: 3600, episodic: 86400, semantic: -1, procedural: -1, archival: -1 }
+    }
+  };
+}
+
+describe('tenant isolation', () => {
+  let protocol: MemoryProtocol;
+  let alice: string;
+  let bob: string;
+  let aliceMemory: string;
+  let bobMemory: string;
+
+  beforeEach(async () => {
+    protocol = new MemoryProtocol(createConfig());
+    await protocol.initialize();
+    alice = await protocol.createSession('alice');
+    bob = await protocol.createSession('bob');
+    aliceMemory = await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, alice);
+    bobMemory = await protocol.store('Bob keeps his travel plan in the red folder', MemoryType.SEMANTIC, bob);
+    await protocol.flushWrites();
+  });
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  const textOf = async (sessionId: string, memoryId: string) =>
+    (await protocol.retrieve('', sessionId, { id: memoryId })).memories[0]?.content.text;
+
+  describe('retrieve', () => {
+    it('returns only the caller\'s memories', async () => {
+      const result = await protocol.retrieve('plan folder', bob);
+
+      expect(result.memories.map(memory => memory.id)).toEqual([bobMemory]);
+    });
+
+    it('does not find another tenant\'s memory by id', async () => {
+      const result = await protocol.retrieve('', bob, { id: aliceMemory });
+
+      expect(result.memories).toHaveLength(0);
+    });
+  });
+
+  describe('update', () => {
+    it('rejects updates to another tenant\'s memory', async () => {
+      await expect(
+        protocol.update(aliceMemory, { content: { text: 'Overwritten by Bob' } }, bob)
+      ).rejects.toMatchObject({ code: 404 });
+
+      expect(await textOf(alice, aliceMemory)).toBe('Alice keeps her savings plan in the blue folder');
+    });
+
+    it('rejects an update that names another memory\'s id', async () => {
+      await expect(
+        protocol.update(bobMemory, { id: aliceMemory, content: { text: 'Overwritten by Bob' } }, bob)
+      ).rejects.toMatchObject({ code: 400 });
+
+      expect(await textOf(alice, aliceMemory)).toBe('Alice keeps her savings plan in the blue folder');
+      expect(await textOf(bob, bobMemory)).toBe('Bob keeps his travel plan in the red folder');
+    });
+
+    it('rejects moving a memory to another namespace', async () => {
+      const [memory] = (await protocol.retrieve('', bob, { id: bobMemory })).memories;
+      const updates: Partial<MemoryEvent> = { context: { ...memory.context, userId: 'alice' } };
+
+      await expect(protocol.update(bobMemory, updates, bob)).rejects.toMatchObject({ code: 403 });
+    });
+  });
+
+  describe('delete', () => {
+    it('rejects deleting another tenant\'s memory', async () => {
+      await expect(protocol.delete(aliceMemory, bob)).rejects.toMatchObject({ code: 404 });
+
+      expect(await textOf(alice, aliceMemory)).toBeDefined();
+    });
+  });
+
+  describe('grants', () => {
+    it('lets a grantee read, but not change, shared memories', async () => {
+      await protocol.grantAccess(alice, { userId: 'bob' }, { memoryIds: [aliceMemory] });
+
+      expect(await textOf(bob, aliceMemory)).toBe('Alice keeps her savings plan in the blue folder');
+      await expect(
+        protocol.update(aliceMemory, { content: { text: 'Overwritten by Bob' } }, bob)
+      ).rejects.toMatchObject({ code: 403 });
+      await expect(protocol.delete(aliceMemory, bob)).rejects.toMatchObject({ code: 403 });
+    });
+
+    it('lets a grantee with write access update shared memories', async () => {
+      await protocol.grantAccess(alice, { userId: 'bob' }, { permission: 'write', memoryIds: [aliceMemory] });
+      await protocol.update(aliceMemory, { content: { text: 'Edited by Bob' } }, bob);
+
+      expect(await textOf(alice, aliceMemory)).toBe('Edited by Bob');
+    });
+
+    it('removes access when revoked', async () => {
+      await protocol.grantAccess(alice, { userId: 'bob' }, { memoryIds: [aliceMemory] });
+      await protocol.revokeAccess(alice, { userId: 'bob' });
+
+      expect(await textOf(bob, aliceMemory)).toBeUndefined();
+    });
+
+    it('does not let a grantee share the owner\'s memories', async () => {
+      await protocol.grantAccess(alice, { userId: 'bob' }, { memoryIds: [aliceMemory] });
+
+      await expect(
+        protocol.grantAccess(bob, { userId: 'carol' }, { memoryIds: [aliceMemory] })
+      ).rejects.toMatchObject({ code: 403 });
+    });
+  });
+});
+
+describe('agent isolation', () => {
+  let protocol: MemoryProtocol;
+
+  beforeEach(async () => {
+    protocol = new MemoryProtocol(createConfig(true));
+    await protocol.initialize();
+  });
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  const idsSeenBy = async (sessionId: string) =>
+    (await protocol.retrieve('', sessionId, { limit: 10 })).memories.map(memory => memory.id).sort();
+
+  it('keeps each agent\'s memories apart and lets its user see them all', async () => {
+    const planner = await protocol.store('Alice plans the offsite', MemoryType.SEMANTIC, await protocol.createSession('alice', 'planner'));
+    const writer = await protocol.store('Alice drafts the newsletter', MemoryType.SEMANTIC, await protocol.createSession('alice', 'writer'));
+    await protocol.flushWrites();
+
+    expect(await idsSeenBy(await protocol.createSession('alice', 'planner'))).toEqual([planner]);
+    expect(await idsSeenBy(await protocol.createSession('alice'))).toEqual([planner, writer].sort());
+  });
+
+  it('shares every agent\'s memories through a user-level grant', async () => {
+    const planner = await protocol.store('Alice plans the offsite', MemoryType.SEMANTIC, await protocol.createSession('alice', 'planner'));
+    const writer = await protocol.store('Alice drafts the newsletter', MemoryType.SEMANTIC, await protocol.createSession('alice', 'writer'));
+    await protocol.flushWrites();
+
+    await protocol.grantAccess(await protocol.createSession('alice'), { userId: 'bob' }, { permission: 'write' });
+
+    const bob = await protocol.createSession('bob', 'assistant');
+    expect(await idsSeenBy(bob)).toEqual([planner, writer].sort());
+    await protocol.update(writer, { content: { text: 'Edited by Bob' } }, bob);
+    expect(await idsSeenBy(await protocol.createSession('carol'))).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  MemoryContext,
+  MemoryEvent,
+  FilterExpression,
+  IsolationConfig,
+  AccessGrant,
+  Namespace,
+  MemoryProtocolError
+} from './types.js';
+import { evaluateFilter } from '../storage/filterExpression.js';
+
+// The part of a session or memory context that decides its namespace
+export type Principal = Pick<MemoryContext, 'userId' | 'agentId'>;
+
+/**
+ * Keeps the memories of each user, and optionally each agent, in their own namespace
+ * Reads are confined by a scope filter that every backend applies like
+ * MemoryQuery.filters; other namespaces become visible only through grants
+ * issued by their owner.
+ */
+export class TenantIsolation {
+  public readonly enabled: boolean;
+  public readonly agentIsolation: boolean;
+
+  private grants: AccessGrant[] = [];
+
+  constructor(config?: IsolationConfig) {
+    this.enabled = config?.enabled !== false;
+    this.agentIsolation = this.enabled && !!config?.agentIsolation;
+
+    for (const grant of config?.grants || []) {
+      this.grant(grant);
+    }
+  }
+
+  /**
+   * Key of the namespace a session or memory belongs to
+   */
+  namespaceOf(principal: Principal): string {
+    return this.agentIsolation
+      ? `${principal.userId ?? ''}\u0000${principal.agentId ?? ''}`
+      : principal.userId ?? '';
+  }
+
+  /**
+   * Whether a context falls in a namespace; under agent isolation, a namespace
+   * without an agent holds every agent of its user
+   */
+  contains(namespace: Principal, context: Principal): boolean {
+    return namespace.userId === context.userId
+      && (!this.agentIsolation || namespace.agentId === undefined || namespace.agentId === context.agentId);
+  }
+
+  /**
+   * The namespace a session owns and can share
+   */
+  ownerOf(principal: Principal): Namespace {
+    if (!principal.userId) {
+      throw new MemoryProtocolError('Sessions without a user cannot share memories', 400);
+    }
+
+    return this.agentIsolation && principal.agentId !== undefined
+      ? { userId: principal.userId, agentId: principal.agentId }
+      : { userId: principal.userId };
+  }
+
+  /**
+   * Filter matching every memory a principal may read, or undefined when isolation is off
+   */
+  scopeFor(principal: Principal): FilterExpression | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const clauses: FilterExpression[] = [this.namespaceFilter(principal)];
+    for (const grant of this.grantsTo(principal)) {
+      clauses.push(grant.memoryIds
+        ? { ...this.namespaceFilter(grant.owner), id: { $in: grant.memoryIds } }
+        : this.namespaceFilter(grant.owner));
+    }
+
+    return clauses.length === 1 ? clauses[0] : { $or: clauses };
+  }
+
+  canRead(principal: Principal, event: MemoryEvent): boolean {
+    const scope = this.scopeFor(principal);
+    return !scope || evaluateFilter(event, scope);
+  }
+
+  canWrite(principal: Principal, event: MemoryEvent): boolean {
+    if (!this.enabled || this.contains(principal, event.context)) {
+      return true;
+    }
+
+    return this.grantsTo(principal).some(grant => grant.permission === 'write'
+      && this.contains(grant.owner, event.context)
+      && (!grant.memoryIds || grant.memoryIds.includes(event.id)));
+  }
+
+  /**
+   * Add a grant, replacing an existing grant for the same owner, grantee and memories
+   */
+  grant(grant: AccessGrant): AccessGrant {
+    this.validateGrant(grant);
+
+    const normalized: AccessGrant = {
+      owner: this.normalize(grant.owner),
+      grantee: this.normalize(grant.grantee),
+      permission: grant.permission,
+      ...(grant.memoryIds ? { memoryIds: Array.from(new Set(grant.memoryIds)).sort() } : {})
+    };
+
+    const key = this.grantKey(normalized);
+    this.grants = this.grants.filter(existing => this.grantKey(existing) !== key);
+    this.grants.push(normalized);
+    return normalized;
+  }
+
+  /**
+   * Remove the grants from an owner to a grantee; with memoryIds, only those memories stop being shared
+   * @returns The grants removed or narrowed
+   */
+  revoke(owner: Namespace, grantee: Namespace, memoryIds?: string[]): AccessGrant[] {
+    const affected: AccessGrant[] = [];
+    const remaining: AccessGrant[] = [];
+
+    for (const grant of this.grants) {
+      const matches = this.namespaceOf(grant.owner) === this.namespaceOf(owner)
+        && this.namespaceOf(grant.grantee) === this.namespaceOf(grantee);
+
+      if (!matches || (memoryIds && !grant.memoryIds)) {
+        remaining.push(grant);
+        continue;
+      }
+
+      affected.push(grant);
+      if (memoryIds) {
+        const kept = grant.memoryIds!.filter(id => !memoryIds.includes(id));
+        if (kept.length > 0) {
+          remaining.push({ ...grant, memoryIds: kept });
+        }
+      }
+    }
+
+    this.grants = remaining;
+    return affected;
+  }
+
+  /**
+   * Grants issued by or to a principal's namespace
+   */
+  listGrants(principal: Principal): AccessGrant[] {
+    const namespace = this.namespaceOf(principal);
+    return this.grants.filter(grant =>
+      this.namespaceOf(grant.owner) === namespace || this.namespaceOf(grant.grantee) === namespace
+    );
+  }
+
+  /**
+   * Grants issued by or to any namespace of a user
+   */
+  grantsOfUser(userId: string): AccessGrant[] {
+    return this.grants.filter(grant => grant.owner.userId === userId || grant.grantee.userId === userId);
+  }
+
+  /**
+   * Drop every grant issued by or to any namespace of a user
+   */
+  revokeUser(userId: string): AccessGrant[] {
+    const revoked = this.grantsOfUser(userId);
+    this.grants = this.grants.filter(grant => !revoked.includes(grant));
+    return revoked;
+  }
+
+  // Private helper methods
+
+  private grantsTo(principal: Principal): AccessGrant[] {
+    return this.grants.filter(grant => this.contains(grant.grantee, principal));
+  }
+
+  private namespaceFilter(principal: Principal): FilterExpression {
+    const filter: FilterExpression = { 'context.userId': principal.userId ?? { $exists: false } };
+    if (this.agentIsolation && principal.agentId !== undefined) {
+      filter['context.agentId'] = principal.agentId;
+    }
+    return filter;
+  }
+
+  private normalize(namespace: Namespace): Namespace {
+    return this.agentIsolation && namespace.agentId !== undefined
+      ? { userId: namespace.userId, agentId: namespace.agentId }
+      : { userId: namespace.userId };
+  }
+
+  private grantKey(grant: AccessGrant): string {
+    return [
+      this.namespaceOf(grant.owner),
+      this.namespaceOf(grant.grantee),
+      grant.memoryIds ? grant.memoryIds.join(',') : '*'
+    ].join('\u0001');
+  }
+
+  private validateGrant(grant: AccessGrant): void {
+    if (!grant?.owner?.userId || !grant.grantee?.userId) {
+      throw new MemoryProtocolError('Grant owner and grantee need a userId', 400);
+    }
+    if (grant.permission !== 'read' && grant.permission !== 'write') {
+      throw new MemoryProtocolError(`Invalid grant permission: ${grant.permission}`, 400);
+    }
+    if (grant.memoryIds !== undefined
+      && (!Array.isArray(grant.memoryIds) || grant.memoryIds.some(id => typeof id !== 'string'))) {
+      throw new MemoryProtocolError('Grant memoryIds must be an array of memory ids', 400);
+    }
+  }
+}
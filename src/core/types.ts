@@ -55,6 +55,7 @@ export interface MemoryEvent {
   metadata: MemoryMetadata;
   timestamp: Date;
   ttl?: number; // Time to live in seconds
+  score?: number; // Relevance to the query, set on search results
 }
 
 // Memory Content with embeddings and relationships
@@ -118,10 +119,20 @@ export interface MemoryQuery {
   timeRange?: TimeRange;
   limit?: number;
   offset?: number;
+  cursor?: string; // MemorySearchResult.nextToken of the previous page; takes precedence over offset
   threshold?: number; // Similarity threshold
+  embedding?: number[]; // Query vector for similarity search
   includeMetadata?: boolean;
   includeContent?: boolean;
-  filters?: Record<string, any>;
+  filters?: FilterExpression;
+  scope?: FilterExpression; // Namespaces the caller may see; set by the protocol from the session
+  expandRelated?: GraphTraversalOptions; // Add memories related to the results
+}
+
+// Options of MemoryProtocol.retrieveStream
+export interface RetrieveStreamOptions {
+  signal?: AbortSignal; // Ends the stream with a 499 error when aborted
+  batchSize?: number; // Memories fetched per page, defaults to 100
 }
 
 export interface TimeRange {
@@ -129,13 +140,87 @@ export interface TimeRange {
   end?: Date;
 }
 
+// Filter expressions for MemoryQuery.filters
+// Keys are dotted paths ('context.userId', 'content.tags'); bare keys refer to metadata
+export type FilterValue = string | number | boolean | null | Date;
+
+export interface FilterOperators {
+  $eq?: unknown;
+  $ne?: unknown;
+  $gt?: string | number | Date;
+  $gte?: string | number | Date;
+  $lt?: string | number | Date;
+  $lte?: string | number | Date;
+  $in?: unknown[];
+  $nin?: unknown[];
+  $contains?: unknown; // Array element or substring
+  $exists?: boolean;
+}
+
+export type FilterCondition = FilterValue | unknown[] | FilterOperators | Record<string, unknown>;
+
+export interface FilterExpression {
+  $and?: FilterExpression[];
+  $or?: FilterExpression[];
+  $not?: FilterExpression;
+  [path: string]: FilterCondition | FilterExpression | FilterExpression[] | undefined;
+}
+
 // Memory Search Results
 export interface MemorySearchResult {
   memories: MemoryEvent[];
   totalCount: number;
   query: MemoryQuery;
   searchTime: number;
-  nextToken?: string; // For pagination
+  nextToken?: string; // Continuation token for the next page, absent on the last page
+  warnings?: SearchWarning[]; // Backends that failed during a federated search
+  chunkMatches?: ChunkMatch[]; // Best-matching chunk of returned memories
+  related?: RelatedMemory[]; // Memories reached from the results through relationships
+}
+
+// Chunk-level match returned alongside its parent memory
+export interface ChunkMatch {
+  memoryId: string;
+  chunk: MemoryChunk;
+  score: number;
+}
+
+// Relationship graph traversal
+export type GraphDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface GraphTraversalOptions {
+  types?: RelationshipType[]; // Relationship types to follow, defaults to all
+  direction?: GraphDirection; // defaults to 'both'
+  hops?: number; // defaults to 1
+  minStrength?: number; // Ignore weaker relationships
+  limit?: number;
+}
+
+export interface GraphEdge {
+  sourceId: string;
+  targetId: string;
+  type: RelationshipType;
+  strength: number;
+  metadata?: Record<string, any>;
+}
+
+export interface RelatedMemory {
+  memory: MemoryEvent;
+  score: number; // Product of relationship strengths along the best path
+  hops: number;
+  via: GraphEdge; // Last edge of the best path
+}
+
+export interface GraphPath {
+  memoryIds: string[];
+  edges: GraphEdge[];
+  strength: number; // Product of relationship strengths
+}
+
+export interface SearchWarning {
+  backend: string;
+  message: string;
+  code?: number;
 }
 
 // Storage Backend Interface
@@ -148,6 +233,9 @@ export interface StorageBackend {
   update(id: string, updates: Partial<MemoryEvent>): Promise<void>;
   delete(id: string): Promise<void>;
   consolidate?(events: MemoryEvent[]): Promise<MemoryEvent[]>;
+  list?(offset?: number, limit?: number): Promise<MemoryEvent[]>; // Enumerate stored events in a stable order
+  get?(id: string): Promise<MemoryEvent | undefined>; // Read one event without touching access metadata
+  expand?(memoryIds: string[], options?: GraphTraversalOptions): Promise<RelatedMemory[]>; // Follow relationships
   close(): Promise<void>;
 }
 
@@ -156,10 +244,22 @@ export interface Transport extends EventEmitter {
   name: string;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
-  send(message: ProtocolMessage): Promise<void>;
+  send(message: ProtocolMessage, clientId?: string): Promise<void>;
   isConnected(): boolean;
+  streaming?: boolean; // Can send several messages in reply to one request
+  setAuthenticator?(authenticator: ConnectionAuthenticator): void; // Check credentials as clients connect
 }
 
+// Request headers, with lower-case names
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Authenticates a connecting client from its request headers. Resolves undefined
+ * when no credentials were presented, and rejects with an AuthenticationError
+ * when they are invalid.
+ */
+export type ConnectionAuthenticator = (headers: RequestHeaders) => Promise<AuthenticatedPrincipal | undefined>;
+
 // Protocol Message (JSON-RPC 2.0 based, following MCP)
 export interface ProtocolMessage {
   jsonrpc: '2.0';
@@ -185,6 +285,8 @@ export interface MemoryProtocolConfig {
   security: SecurityConfig;
   processing: ProcessingConfig;
   consolidation: ConsolidationConfig;
+  paging?: PagingConfig;
+  pagination?: PaginationConfig;
 }
 
 export interface TransportConfig {
@@ -197,33 +299,142 @@ export interface StorageConfig {
   tier: StorageTier;
   options: Record<string, any>;
   priority: number;
+  routing?: RoutingRule[]; // Events this backend accepts; all events when omitted
+}
+
+// Routing rule mapping memory types and tiers to a backend
+export interface RoutingRule {
+  memoryTypes?: MemoryType[];
+  storageTiers?: StorageTier[];
+  writeMode?: WriteMode; // Defaults to write-through
 }
 
+export type WriteMode = 'write-through' | 'write-behind';
+
 export interface SecurityConfig {
-  authentication: {
-    type: 'oauth' | 'apikey' | 'jwt';
-    options: Record<string, any>;
-  };
-  authorization: {
-    enabled: boolean;
-    rules: AuthorizationRule[];
-  };
-  encryption: {
-    enabled: boolean;
-    algorithm: string;
-    keyRotation: boolean;
-  };
+  authentication: AuthenticationConfig;
+  authorization: AuthorizationConfig;
+  encryption: EncryptionConfig;
+  isolation?: IsolationConfig; // Enabled when omitted
+  audit?: AuditConfig;
+}
+
+// Hash-chained audit trail of memory and session operations
+export interface AuditConfig {
+  enabled: boolean;
+  file?: string; // JSON Lines file entries are appended to, and the chain resumed from on restart
+  key?: string; // HMAC key for the chain; without one, anyone able to edit the log can rebuild it
+  maxEntries?: number; // Entries kept in memory for queries, default 10000
+  recordQueries?: boolean; // Record retrieve query text, default true
+}
+
+// Encryption at rest: every storage backend is wrapped so memory text, chunks and metadata are stored encrypted
+export interface EncryptionConfig {
+  enabled: boolean;
+  algorithm: string; // Only 'aes-256-gcm' is supported
+  keyRotation: boolean; // Re-encrypt memories under the current key in the background
+  reencryptInterval?: number; // Seconds between re-encryption sweeps, default 3600
+  encryptedMetadata?: string[]; // Custom metadata fields to encrypt, default all; the required MemoryMetadata fields stay readable
+}
+
+// With authentication enabled, every transport message must carry credentials, or come from a client that presented them on connecting
+export interface AuthenticationConfig {
+  enabled?: boolean; // Default: false
+  type: 'oauth' | 'apikey' | 'jwt';
+  options: Record<string, any>; // JwtAuthenticationOptions, ApiKeyAuthenticationOptions or OAuthAuthenticationOptions
+}
+
+export interface JwtAuthenticationOptions {
+  secret?: string; // HS256
+  publicKey?: string; // RS256, PEM
+  algorithms?: ('HS256' | 'RS256')[]; // Default: those a key is configured for
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockTolerance?: number; // Seconds, default 0
+  userClaim?: string; // Default: sub
+  agentClaim?: string; // Default: agent_id
+}
+
+export interface ApiKeyAuthenticationOptions {
+  keys: ApiKeyEntry[];
+}
+
+export interface ApiKeyEntry {
+  hash: string; // Hex SHA-256 of the key, see hashApiKey
+  userId: string;
+  agentId?: string;
+  permissions?: string[];
+  name?: string;
+}
+
+export interface OAuthAuthenticationOptions {
+  introspectionUrl?: string; // RFC 7662 endpoint, unless a TokenIntrospector is set
+  clientId?: string;
+  clientSecret?: string;
+  cacheTtl?: number; // Seconds to reuse an introspection result, default 60
+  userClaim?: string; // Default: sub
+  agentClaim?: string; // Default: agent_id
+}
+
+// RFC 7662 token introspection response
+export interface IntrospectionResult {
+  active: boolean;
+  sub?: string;
+  scope?: string;
+  exp?: number; // Seconds since the epoch
+  [claim: string]: unknown;
+}
+
+export type TokenIntrospector = (token: string) => Promise<IntrospectionResult>;
+
+// Who a transport message was authenticated as
+export interface AuthenticatedPrincipal {
+  userId: string;
+  agentId?: string;
+  method: AuthenticationConfig['type'];
+  permissions: string[];
+  claims: Record<string, unknown>;
+  expiresAt?: Date;
+}
+
+// Tenant isolation: a memory belongs to the namespace of the user (and agent) that stored it
+export interface IsolationConfig {
+  enabled: boolean;
+  agentIsolation?: boolean; // Give each agent of a user its own namespace
+  grants?: AccessGrant[]; // Grants in place at startup
+}
+
+export interface Namespace {
+  userId: string;
+  agentId?: string; // All agents of the user when omitted
+}
+
+// Cross-namespace sharing, issued by the owner
+export interface AccessGrant {
+  owner: Namespace;
+  grantee: Namespace;
+  permission: 'read' | 'write'; // 'write' also allows update and delete
+  memoryIds?: string[]; // The whole namespace when omitted
+}
+
+// With authorization enabled, a call is allowed only when an allow rule matches it and no deny rule does
+export interface AuthorizationConfig {
+  enabled: boolean;
+  rules: AuthorizationRule[];
+  rulesFile?: string; // JSON array of rules, used instead of `rules` and reloaded when it changes
 }
 
 export interface AuthorizationRule {
-  resource: string;
-  action: string;
-  condition?: string;
+  resource: string; // 'memory', 'session' or '*'
+  action: string; // store, retrieve, update, delete, create, close; 'read', 'write' and '*' match several
+  condition?: string; // e.g. "user.id == context.userId || memory.tags contains 'public'"
+  effect?: 'allow' | 'deny'; // Default: allow
 }
 
 export interface ProcessingConfig {
   embedding: {
-    model: string;
+    enabled?: boolean; // Defaults to true; false stores memories without embeddings
+    model: string; // Needs a registered embedding provider while enabled
     dimensions: number;
     batchSize: number;
   };
@@ -235,17 +446,74 @@ export interface ProcessingConfig {
   deduplication: {
     enabled: boolean;
     threshold: number;
+    policy?: DeduplicationPolicy; // Defaults to merge
   };
+  pii?: PiiConfig;
+}
+
+// Kinds of personal data and secrets the PII redactor detects
+export type PiiType = 'email' | 'phone' | 'credit_card' | 'iban' | 'ssn' | 'ip_address' | 'secret';
+
+// What the PII redactor does with a detected value
+export type PiiAction = 'redact' | 'mask' | 'hash' | 'reject';
+
+export interface PiiConfig {
+  enabled: boolean;
+  action?: PiiAction; // Default: redact
+  actions?: Partial<Record<PiiType, PiiAction>>; // Per-type overrides of action
+  types?: PiiType[]; // Types to detect; default: all
+  allowList?: string[]; // Values left as they are, e.g. a public support address
+  hashKey?: string; // HMAC key for hash; default: random per process, so hashes change on restart
+}
+
+// Recorded in MemoryMetadata.pii for every type found in a memory
+export interface PiiFinding {
+  type: PiiType;
+  action: Exclude<PiiAction, 'reject'>;
+  count: number;
 }
 
+// What to do when a stored memory is a near-duplicate of an existing one
+export type DeduplicationPolicy = 'reject' | 'merge' | 'keep';
+
 export interface ConsolidationConfig {
   enabled: boolean;
   strategy: 'novelty' | 'recency' | 'importance' | 'hybrid';
   interval: number; // in seconds
   batchSize: number;
+  similarityThreshold?: number; // Memories at least this similar are merged; defaults to the deduplication threshold
   retention: {
     [key in MemoryType]: number; // retention period in seconds
   };
+  expiry?: ExpiryConfig; // Defaults to lazy eviction
+}
+
+// Moves memories between MAIN_CONTEXT and EXTERNAL_CONTEXT by how much they are used
+export interface PagingConfig {
+  enabled: boolean;
+  mainContextCapacity: number; // Maximum number of memories kept on MAIN_CONTEXT
+  interval?: number; // in seconds between passes, defaults to 300; 0 disables the schedule
+  promoteThreshold?: number; // Minimum score to promote, defaults to 0.6
+  demoteThreshold?: number; // Score below which memories are demoted, defaults to 0.3
+  weights?: {
+    importance?: number;
+    recency?: number;
+    accessCount?: number;
+  };
+}
+
+// Signing and lifetime of continuation tokens
+export interface PaginationConfig {
+  secret?: string; // HMAC key; a random key is generated per protocol instance when omitted
+  tokenTtl?: number; // seconds, defaults to 3600
+}
+
+// How memories past their TTL or retention period are expired
+export interface ExpiryConfig {
+  mode: 'lazy' | 'active'; // lazy: filtered at read time; active: also swept in the background
+  action: 'evict' | 'demote';
+  sweepInterval?: number; // in seconds, defaults to the consolidation interval
+  demoteTo?: StorageTier; // defaults to EXTERNAL_CONTEXT
 }
 
 // Memory Collector Interface (inspired by OpenTelemetry)
@@ -263,6 +531,21 @@ export interface MemoryProcessor {
   process(events: MemoryEvent[]): Promise<MemoryEvent[]>;
 }
 
+// Embedding Provider Interface
+export interface EmbeddingProvider {
+  name: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Key Provider Interface, supplying master keys for encryption at rest
+export interface KeyProvider {
+  currentKeyId(): Promise<string>; // Key new data is encrypted under
+  getKey(keyId: string): Promise<Buffer>; // 32-byte master key; rejects for unknown ids
+  getIndexKey(): Promise<Buffer>; // Key for blind keyword indexes; not rotated
+  rotate?(): Promise<string>; // Make a new current key and return its id
+}
+
 // Memory Exporter Interface
 export interface MemoryExporter {
   name: string;
@@ -328,4 +611,5 @@ export const DEFAULT_CHUNK_SIZE = 1000;
 export const DEFAULT_CHUNK_OVERLAP = 200;
 export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
 export const DEFAULT_SEARCH_LIMIT = 10;
+export const DEFAULT_STREAM_BATCH_SIZE = 100;
 export const DEFAULT_TTL = 86400; // 24 hours in seconds
@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import { MemoryProtocol } from './memoryProtocol.js';
+import {
+  AuthorizationRule,
+  MemoryProtocolConfig,
+  MemoryType,
+  RelationshipType,
+  StorageTier,
+  Transport
+} from './types.js';
+
+let backendCount = 0;
+
+function createConfig(rules?: AuthorizationRule[], isolation = false): MemoryProtocolConfig {
+  return {
+    version: '1.0.0',
+    transports: [],
+    storage: [
+      { backend: 'in-memory', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: `user-data-${++backendCount}` } }
+    ],
+    security: {
+      authentication: { type: 'jwt', options: {} },
+      authorization: { enabled: !!rules, rules: rules || [] },
+      encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false },
+      isolation: { enabled: isolation }
+    },
+    processing: {
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
+      deduplication: { enabled: false, threshold: 0.9 }
+    },
+    consolidation: {
+      enabled: false,
+      strategy: 'hybrid',
+      interval: 3600,
+      batchSize: 100,
+      retention: { working: 3600, episodic: 86400, semantic: -1, procedural: -1, archival: -1 }
+    }
+  };
+}
+
+// Replies are returned by handleMessage, so nothing is ever sent
+const transport: Transport = Object.assign(new EventEmitter(), {
+  name: 'test',
+  connect: async () => undefined,
+  disconnect: async () => undefined,
+  send: async () => undefined,
+  isConnected: () => true
+});
+
+describe('user data authorization', () => {
+  let protocol: MemoryProtocol;
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  const start = async (rules?: AuthorizationRule[]) => {
+    protocol = new MemoryProtocol(createConfig(rules));
+    await protocol.initialize();
+    const alice = await protocol.createSession('alice');
+    await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, alice);
+    await protocol.flushWrites();
+    return alice;
+  };
+
+  const memoriesOf = async (userId: string) => (await protocol.exportUser(userId)).memories.length;
+
+  describe('without tenant isolation or authorization', () => {
+    it('lets a session export and forget its own user', async () => {
+      const alice = await start();
+
+      expect((await protocol.exportUser('alice', alice)).memories).toHaveLength(1);
+      await protocol.forgetUser('alice', alice);
+      expect(await memoriesOf('alice')).toBe(0);
+    });
+
+    it('rejects a session exporting or forgetting another user', async () => {
+      await start();
+      const bob = await protocol.createSession('bob');
+
+      await expect(protocol.exportUser('alice', bob)).rejects.toMatchObject({ code: 403 });
+      await expect(protocol.forgetUser('alice', bob)).rejects.toMatchObject({ code: 403 });
+      expect(await memoriesOf('alice')).toBe(1);
+    });
+  });
+
+  describe('with authorization', () => {
+    it('lets a rule allow a session to forget another user', async () => {
+      await start([
+        { resource: 'session', action: '*' },
+        { resource: 'memory', action: '*' },
+        { resource: 'user', action: '*', condition: "user.id == context.userId || user.id == 'admin'" }
+      ]);
+      const bob = await protocol.createSession('bob');
+      const admin = await protocol.createSession('admin');
+
+      await expect(protocol.forgetUser('alice', bob)).rejects.toMatchObject({ code: 403 });
+      await protocol.forgetUser('alice', admin);
+      expect(await memoriesOf('alice')).toBe(0);
+    });
+  });
+});
+
+describe('user data', () => {
+  let protocol: MemoryProtocol;
+  let backends: string[];
+  let alice: string;
+  let bob: string;
+  let aliceMemories: string[];
+  let bobMemory: string;
+
+  beforeEach(async () => {
+    const config = createConfig(undefined, true);
+    config.storage = [1, 2].map(priority => ({
+      backend: 'in-memory',
+      tier: StorageTier.MAIN_CONTEXT,
+      priority,
+      options: { name: `user-data-${++backendCount}` }
+    }));
+    backends = config.storage.map(storage => storage.options!.name);
+
+    protocol = new MemoryProtocol(config);
+    await protocol.initialize();
+    alice = await protocol.createSession('alice');
+    bob = await protocol.createSession('bob');
+    aliceMemories = [
+      await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, alice),
+      await protocol.store('Alice met Bob for lunch on Friday', MemoryType.EPISODIC, alice)
+    ];
+    bobMemory = await protocol.store('Bob keeps his travel plan in the red folder', MemoryType.SEMANTIC, bob);
+    await protocol.grantAccess(alice, { userId: 'bob' }, { memoryIds: [aliceMemories[1]] });
+
+    const [memory] = (await protocol.retrieve('', bob, { id: bobMemory })).memories;
+    await protocol.update(bobMemory, {
+      content: {
+        ...memory.content,
+        relationships: [{ type: RelationshipType.REFERENCES, targetId: aliceMemories[1], strength: 0.8 }]
+      }
+    }, bob);
+    await protocol.flushWrites();
+  });
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  it('exports a user\'s memories and grants', async () => {
+    const archive = await protocol.exportUser('alice');
+
+    expect(archive).toMatchObject({ format: 'mmp-user-export', userId: 'alice', unscanned: [] });
+    expect(archive.memories.map(memory => memory.id).sort()).toEqual([...aliceMemories].sort());
+    expect(archive.memories.map(memory => memory.content.text)).toContain('Alice met Bob for lunch on Friday');
+    expect(archive.grants).toEqual([
+      { owner: { userId: 'alice' }, grantee: { userId: 'bob' }, permission: 'read', memoryIds: [aliceMemories[1]] }
+    ]);
+  });
+
+  it('forgets a user in every backend and returns a receipt', async () => {
+    const receipt = await protocol.forgetUser('alice');
+
+    expect(receipt).toMatchObject({
+      userId: 'alice',
+      backends: { [backends[0]]: 2, [backends[1]]: 2 },
+      relationshipsRemoved: 1,
+      grantsRevoked: 1,
+      sessionsClosed: 1,
+      unscanned: [],
+      failures: [],
+      complete: true,
+      digest: expect.stringMatching(/^[0-9a-f]{64}$/)
+    });
+    expect([...receipt.memoryIds].sort()).toEqual([...aliceMemories].sort());
+
+    for (const name of backends) {
+      const remaining = await protocol.getStorageBackend(name)!.list!();
+      expect(remaining.map(memory => [memory.id, memory.content.relationships])).toEqual([[bobMemory, []]]);
+    }
+    expect(protocol.listGrants(bob)).toEqual([]);
+    await expect(protocol.store('Still here?', MemoryType.WORKING, alice)).rejects.toMatchObject({ code: 404 });
+  });
+
+  it('requires a session over JSON-RPC', async () => {
+    const response = await protocol.handleMessage(
+      { jsonrpc: '2.0', id: 1, method: 'user/forget', params: { userId: 'alice' } },
+      transport
+    );
+
+    expect(response.error).toMatchObject({ code: 400, message: 'sessionId is required' });
+    expect((await protocol.exportUser('alice')).memories).toHaveLength(2);
+  });
+});
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AccessGrant,
+  MemoryEvent,
+  StorageBackend,
+  MEMORY_PROTOCOL_VERSION
+} from './types.js';
+import { AuditEntry } from './auditLog.js';
+
+/**
+ * Record of a forgetUser call, returned to the caller and kept by them as proof of erasure
+ */
+export interface DeletionReceipt {
+  receiptId: string;
+  userId: string;
+  requestedAt: Date;
+  completedAt: Date;
+  memoryIds: string[]; // Memories deleted
+  backends: Record<string, number>; // Memories deleted from each backend
+  relationshipsRemoved: number; // Relationships other memories held to the deleted ones
+  grantsRevoked: number;
+  sessionsClosed: number;
+  unscanned: string[]; // Backends that cannot list their memories; only ids found elsewhere were deleted there
+  failures: { backend: string; memoryId: string; error: string }[];
+  complete: boolean; // Nothing failed and every backend was scanned
+  digest: string; // Hex SHA-256 of the receipt's other fields
+}
+
+/**
+ * Everything held about a user, as returned by exportUser
+ */
+export interface UserExport {
+  format: 'mmp-user-export';
+  version: string;
+  userId: string;
+  exportedAt: Date;
+  memories: MemoryEvent[]; // With chunks, embeddings and relationships
+  grants: AccessGrant[]; // Issued by or to the user
+  auditEntries: AuditEntry[]; // Empty unless audit logging is enabled
+  unscanned: string[]; // Backends that cannot list their memories
+}
+
+/**
+ * Operations the user data manager needs from the protocol
+ */
+export interface UserDataHost {
+  getBackends(): [string, StorageBackend][];
+  flushWrites(): Promise<void>;
+  closeSessions(userId: string): number;
+  revokeGrants(userId: string): AccessGrant[];
+  listGrants(userId: string): AccessGrant[];
+  auditEntries(userId: string): AuditEntry[];
+  onMemoryDeleted(id: string): void;
+}
+
+const SCAN_BATCH_SIZE = 500;
+
+/**
+ * Finds, exports and erases everything tied to one MemoryContext.userId across backends
+ */
+export class UserDataManager {
+  private host: UserDataHost;
+
+  constructor(host: UserDataHost) {
+    this.host = host;
+  }
+
+  async exportUser(userId: string): Promise<UserExport> {
+    await this.host.flushWrites();
+
+    // Backends come in priority order, so the first copy of a memory wins
+    const memories = new Map<string, MemoryEvent>();
+    const unscanned: string[] = [];
+
+    for (const [name, backend] of this.host.getBackends()) {
+      if (!backend.list) {
+        unscanned.push(name);
+        continue;
+      }
+      await this.scan(backend, event => {
+        if (event.context.userId === userId && !memories.has(event.id)) {
+          const { score, ...stored } = event;
+          memories.set(event.id, stored);
+        }
+      });
+    }
+
+    return {
+      format: 'mmp-user-export',
+      version: MEMORY_PROTOCOL_VERSION,
+      userId,
+      exportedAt: new Date(),
+      memories: Array.from(memories.values()),
+      grants: this.host.listGrants(userId),
+      auditEntries: this.host.auditEntries(userId),
+      unscanned
+    };
+  }
+
+  /**
+   * Delete the user's memories, with their chunks and embeddings, from every backend,
+   * drop relationships pointing at them, and revoke the user's grants and sessions
+   */
+  async forgetUser(userId: string): Promise<DeletionReceipt> {
+    const requestedAt = new Date();
+
+    // No more writes from the user's sessions
+    const sessionsClosed = this.host.closeSessions(userId);
+    await this.host.flushWrites();
+
+    const backends = this.host.getBackends();
+    const held = new Map<string, Set<string>>(); // Ids of the user's memories, by backend
+    const unscanned: string[] = [];
+
+    // Collect first, then delete, so deletions do not shift the pages being read
+    for (const [name, backend] of backends) {
+      if (!backend.list) {
+        unscanned.push(name);
+        continue;
+      }
+      const ids = new Set<string>();
+      await this.scan(backend, event => {
+        if (event.context.userId === userId) {
+          ids.add(event.id);
+        }
+      });
+      held.set(name, ids);
+    }
+
+    const memoryIds = new Set(Array.from(held.values()).flatMap(ids => Array.from(ids)));
+    const deleted: Record<string, number> = {};
+    const failures: DeletionReceipt['failures'] = [];
+
+    for (const [name, backend] of backends) {
+      deleted[name] = 0;
+      const listed = held.get(name);
+
+      for (const id of listed || memoryIds) {
+        try {
+          await backend.delete(id);
+          deleted[name]++;
+        } catch (error: any) {
+          // A backend that cannot list is tried with every id, and holds only some of them
+          if (listed) {
+            failures.push({ backend: name, memoryId: id, error: error.message });
+          }
+        }
+      }
+    }
+    for (const id of memoryIds) {
+      this.host.onMemoryDeleted(id);
+    }
+
+    const relationshipsRemoved = await this.unlink(backends, memoryIds, failures);
+    const grantsRevoked = this.host.revokeGrants(userId).length;
+
+    const receipt: Omit<DeletionReceipt, 'digest'> = {
+      receiptId: uuidv4(),
+      userId,
+      requestedAt,
+      completedAt: new Date(),
+      memoryIds: Array.from(memoryIds),
+      backends: deleted,
+      relationshipsRemoved,
+      grantsRevoked,
+      sessionsClosed,
+      unscanned,
+      failures,
+      complete: failures.length === 0 && unscanned.length === 0
+    };
+
+    return { ...receipt, digest: createHash('sha256').update(JSON.stringify(receipt)).digest('hex') };
+  }
+
+  // Private helper methods
+
+  // Remove relationships from the remaining memories to deleted ones
+  private async unlink(
+    backends: [string, StorageBackend][],
+    memoryIds: Set<string>,
+    failures: DeletionReceipt['failures']
+  ): Promise<number> {
+    if (memoryIds.size === 0) {
+      return 0;
+    }
+
+    // Counted once however many backends hold a copy
+    const removed = new Set<string>();
+    for (const [name, backend] of backends) {
+      if (!backend.list) {
+        continue;
+      }
+
+      const linked: MemoryEvent[] = [];
+      await this.scan(backend, event => {
+        if (event.content.relationships?.some(relationship => memoryIds.has(relationship.targetId))) {
+          linked.push(event);
+        }
+      });
+
+      for (const event of linked) {
+        const relationships = event.content.relationships!.filter(relationship => !memoryIds.has(relationship.targetId));
+        const dropped = event.content.relationships!.filter(relationship => memoryIds.has(relationship.targetId));
+        try {
+          await backend.update(event.id, { content: { ...event.content, relationships } });
+          for (const relationship of dropped) {
+            removed.add(`${event.id}\u0000${relationship.type}\u0000${relationship.targetId}`);
+          }
+        } catch (error: any) {
+          failures.push({ backend: name, memoryId: event.id, error: error.message });
+        }
+      }
+    }
+    return removed.size;
+  }
+
+  private async scan(backend: StorageBackend, visit: (event: MemoryEvent) => void): Promise<void> {
+    for (let offset = 0; ; offset += SCAN_BATCH_SIZE) {
+      const batch = await backend.list!(offset, SCAN_BATCH_SIZE);
+      batch.forEach(visit);
+      if (batch.length < SCAN_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+}
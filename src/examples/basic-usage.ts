@@ -29,7 +29,7 @@ async function basicUsageExample() {
       encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false }
     },
     processing: {
-      embedding: { model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
       chunking: { strategy: 'fixed' as const, size: 1000, overlap: 200 },
       deduplication: { enabled: true, threshold: 0.9 }
     },
@@ -49,13 +49,9 @@ async function basicUsageExample() {
   };
 
   try {
-    // Initialize protocol
+    // Initialize protocol - backends are created from the storage configuration
     const protocol = new MemoryProtocol(config);
-    
-    // Add in-memory backend manually for this example
-    const inMemoryBackend = new InMemoryBackend();
-    await inMemoryBackend.initialize();
-    protocol['storageBackends'].set('in-memory', inMemoryBackend);
+    await protocol.initialize();
     
     console.log('✅ Protocol initialized successfully');
 
@@ -202,7 +198,7 @@ async function basicUsageExample() {
 
     // Check backend statistics
     console.log('\n📊 Backend statistics:');
-    const backend = protocol['storageBackends'].get('in-memory') as InMemoryBackend;
+    const backend = protocol.getStorageBackend('in-memory') as InMemoryBackend;
     console.log(`✅ Total memories stored: ${backend.getEventCount()}`);
     console.log(`✅ All memories:`);
     backend.getAllEvents().forEach((event, index) => {
@@ -8,12 +8,97 @@
 // Core exports
 export * from './core/types.js';
 export { MemoryProtocol } from './core/memoryProtocol.js';
+export { MemoryManager } from './core/memoryManager.js';
+export {
+  MemoryConsolidator,
+  ConsolidationHost,
+  ConsolidationResult
+} from './core/consolidator.js';
+export {
+  RetentionManager,
+  RetentionHost,
+  EvictionNotice,
+  ExpiryReason
+} from './core/retentionManager.js';
+export {
+  PagingManager,
+  PagingHost,
+  PagingResult,
+  TierMove
+} from './core/pagingManager.js';
+export { CursorCodec, CursorPosition, DecodedCursor } from './core/cursor.js';
+export { TenantIsolation, Principal } from './core/tenantIsolation.js';
+export {
+  AuthorizationEngine,
+  AuthorizationHost,
+  AuthorizationRequest,
+  AuthorizationDecision,
+  AuthorizationResource,
+  AuthorizationAction
+} from './core/authorization.js';
+export { compileCondition, CompiledCondition } from './core/ruleCondition.js';
+export { Authentication, hashApiKey } from './core/authentication.js';
+export { LocalKeyProvider, LocalKeyProviderOptions } from './core/keyProvider.js';
+export { KeyRotationManager, KeyRotationHost, ReencryptionResult } from './core/keyRotation.js';
+export {
+  AuditLog,
+  AuditHost,
+  AuditEntry,
+  AuditQuery,
+  AuditAction,
+  AuditOutcome,
+  AuditVerification,
+  verifyAuditChain
+} from './core/auditLog.js';
+export { UserDataManager, UserDataHost, DeletionReceipt, UserExport } from './core/userData.js';
+export {
+  PluginRegistry,
+  EmbeddingProviderFactory,
+  StorageBackendFactory,
+  TransportFactory,
+  createDefaultRegistry
+} from './core/pluginRegistry.js';
 
 // Storage backends
-export { InMemoryBackend } from './storage/inMemoryBackend.js';
+export { InMemoryBackend, InMemoryBackendOptions } from './storage/inMemoryBackend.js';
+export { VectorStoreBackend } from './storage/vectorStoreBackend.js';
+export { GraphStoreBackend, GraphNeighbor } from './storage/graphStoreBackend.js';
+export {
+  TemporalStoreBackend,
+  TimelineInterval,
+  TimelineOptions,
+  TimelineBucket,
+  Episode,
+  MemoryNeighborhood
+} from './storage/temporalStoreBackend.js';
+export { FileBackend, FileBackendOptions } from './storage/fileBackend.js';
+export { SqliteBackend, SqliteBackendOptions } from './storage/sqliteBackend.js';
+export { EncryptedBackend, EncryptedBackendOptions, EncryptionEnvelope } from './storage/encryptedBackend.js';
+export { HnswIndex, HnswOptions, DistanceMetric, VectorMatch } from './storage/hnswIndex.js';
+export { matchesQuery, compareResults } from './storage/queryMatcher.js';
+export { validateFilter, evaluateFilter, resolveFilterPath } from './storage/filterExpression.js';
+export { reviveEvent } from './storage/serialization.js';
+export { TextIndex, TextFields, Bm25Options, tokenize, stem } from './storage/textIndex.js';
+
+// Processing pipelines
+export { HashingEmbeddingProvider, EmbeddingPipeline } from './processing/embedding.js';
+export { Chunker } from './processing/chunker.js';
+export {
+  Deduplicator,
+  DuplicateMatch,
+  TextFingerprint,
+  textFingerprint,
+  fingerprintSimilarity,
+  simhash,
+  simhashSimilarity,
+  cosineSimilarity
+} from './processing/deduplicator.js';
+export { PiiRedactor } from './processing/piiRedactor.js';
 
 // Transport implementations
 export { WebSocketTransport, WebSocketServerTransport } from './transport/websocketTransport.js';
+export { StdioTransport } from './transport/stdioTransport.js';
+export { HttpTransport } from './transport/httpTransport.js';
 
 // Examples
 export { basicUsageExample } from './examples/basic-usage.js';
@@ -44,7 +129,7 @@ export function createDefaultConfig() {
       encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false }
     },
     processing: {
-      embedding: { model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
       chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
       deduplication: { enabled: true, threshold: 0.9 }
     },
@@ -0,0 +1,224 @@
+import {
+  MemoryChunk,
+  MemoryProtocolError,
+  ProcessingConfig,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_CHUNK_OVERLAP
+} from '../core/types.js';
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+interface SentenceSpan extends TextSpan {
+  paragraphEnd: boolean;
+}
+
+/**
+ * Splits long memory content into MemoryChunks
+ *
+ * - fixed: consecutive windows of `size` characters without overlap
+ * - sliding: windows of `size` characters advancing by `size - overlap`,
+ *   snapped to whitespace where possible
+ * - semantic: paragraphs and sentences packed into chunks of up to `size`
+ *   characters, repeating trailing sentences up to `overlap` characters
+ *
+ * MemoryChunk.position is the character offset of the chunk in the parent text
+ * and MemoryChunk.overlap the number of characters shared with the previous chunk.
+ */
+export class Chunker {
+  private strategy: ProcessingConfig['chunking']['strategy'];
+  private size: number;
+  private overlap: number;
+
+  constructor(config?: Partial<ProcessingConfig['chunking']>) {
+    this.strategy = config?.strategy || 'fixed';
+    this.size = config?.size || DEFAULT_CHUNK_SIZE;
+    this.overlap = config?.overlap ?? DEFAULT_CHUNK_OVERLAP;
+
+    if (this.size <= 0 || this.overlap < 0 || this.overlap >= this.size) {
+      throw new MemoryProtocolError(
+        `Invalid chunking configuration: size ${this.size}, overlap ${this.overlap}`,
+        400,
+        { size: this.size, overlap: this.overlap }
+      );
+    }
+  }
+
+  /**
+   * Chunk the text of a memory; content that fits in a single chunk is not chunked
+   */
+  chunk(memoryId: string, text: string): MemoryChunk[] {
+    if (text.length <= this.size) {
+      return [];
+    }
+
+    let spans: TextSpan[];
+    switch (this.strategy) {
+      case 'sliding':
+        spans = this.slidingSpans(text);
+        break;
+      case 'semantic':
+        spans = this.semanticSpans(text);
+        break;
+      default:
+        spans = this.fixedSpans(text);
+    }
+
+    return spans.map((span, index) => {
+      const previous = spans[index - 1];
+      const chunk: MemoryChunk = {
+        id: `${memoryId}:${index}`,
+        text: text.slice(span.start, span.end),
+        position: span.start
+      };
+
+      if (previous && previous.end > span.start) {
+        chunk.overlap = previous.end - span.start;
+      }
+
+      return chunk;
+    });
+  }
+
+  // Private helper methods
+
+  private fixedSpans(text: string, from = 0, to = text.length): TextSpan[] {
+    const spans: TextSpan[] = [];
+    for (let start = from; start < to; start += this.size) {
+      spans.push({ start, end: Math.min(start + this.size, to) });
+    }
+    return spans;
+  }
+
+  private slidingSpans(text: string): TextSpan[] {
+    const spans: TextSpan[] = [];
+    const step = this.size - this.overlap;
+    let start = 0;
+
+    while (start < text.length) {
+      let end = Math.min(start + this.size, text.length);
+
+      // Prefer ending on whitespace, as long as the window does not shrink below one step
+      if (end < text.length) {
+        const boundary = text.lastIndexOf(' ', end);
+        if (boundary > start + step) {
+          end = boundary;
+        }
+      }
+
+      spans.push({ start, end });
+      if (end >= text.length) {
+        break;
+      }
+
+      let next = Math.max(end - this.overlap, start + 1);
+      const wordStart = text.indexOf(' ', next);
+      if (wordStart !== -1 && wordStart < end) {
+        next = wordStart + 1;
+      }
+      start = next;
+    }
+
+    return spans;
+  }
+
+  private semanticSpans(text: string): TextSpan[] {
+    const spans: TextSpan[] = [];
+    let current: SentenceSpan[] = [];
+
+    for (const unit of this.sentenceUnits(text)) {
+      // Sentences longer than a chunk fall back to fixed windows
+      if (unit.end - unit.start > this.size) {
+        if (current.length > 0) {
+          spans.push(this.spanOf(current));
+        }
+        current = [];
+        spans.push(...this.fixedSpans(text, unit.start, unit.end));
+        continue;
+      }
+
+      if (current.length > 0 && unit.end - current[0].start > this.size) {
+        const cut = this.paragraphCut(current);
+        if (cut > 0) {
+          spans.push(this.spanOf(current.slice(0, cut)));
+          current = current.slice(cut);
+        } else {
+          spans.push(this.spanOf(current));
+          current = this.trailingOverlap(current);
+        }
+
+        while (current.length > 0 && unit.end - current[0].start > this.size) {
+          current.shift();
+        }
+      }
+
+      current.push(unit);
+    }
+
+    if (current.length > 0) {
+      spans.push(this.spanOf(current));
+    }
+
+    return spans;
+  }
+
+  private paragraphCut(units: SentenceSpan[]): number {
+    // Prefer closing a chunk on a paragraph boundary in its second half
+    for (let i = units.length - 2; i >= 0; i--) {
+      if (units[i].paragraphEnd && units[i].end - units[0].start >= this.size / 2) {
+        return i + 1;
+      }
+    }
+    return 0;
+  }
+
+  private trailingOverlap(units: SentenceSpan[]): SentenceSpan[] {
+    // Repeat trailing sentences up to the overlap budget, never the whole chunk
+    const carried: SentenceSpan[] = [];
+    let length = 0;
+
+    for (let i = units.length - 1; i > 0; i--) {
+      length += units[i].end - units[i].start;
+      if (length > this.overlap) {
+        break;
+      }
+      carried.unshift(units[i]);
+    }
+
+    return carried;
+  }
+
+  private spanOf(units: SentenceSpan[]): TextSpan {
+    return { start: units[0].start, end: units[units.length - 1].end };
+  }
+
+  private sentenceUnits(text: string): SentenceSpan[] {
+    const units: SentenceSpan[] = [];
+    const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+    const sentencePattern = /[^.!?]+(?:[.!?]+["')\]]*|$)/g;
+
+    for (const paragraph of text.matchAll(paragraphPattern)) {
+      const paragraphStart = paragraph.index!;
+      const sentences: TextSpan[] = [];
+
+      for (const sentence of paragraph[0].matchAll(sentencePattern)) {
+        const raw = sentence[0];
+        const leading = raw.length - raw.trimStart().length;
+        const trimmed = raw.trim();
+        if (trimmed.length === 0) {
+          continue;
+        }
+        const start = paragraphStart + sentence.index! + leading;
+        sentences.push({ start, end: start + trimmed.length });
+      }
+
+      sentences.forEach((sentence, index) => {
+        units.push({ ...sentence, paragraphEnd: index === sentences.length - 1 });
+      });
+    }
+
+    return units;
+  }
+}
@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Deduplicator } from './deduplicator.js';
+import { MemoryProtocol } from '../core/memoryProtocol.js';
+import {
+  MemoryEvent,
+  MemoryEventType,
+  MemoryProtocolConfig,
+  MemoryType,
+  StorageTier
+} from '../core/types.js';
+
+const DISTINCT_SHORT_TEXTS = [
+  'User prefers dark mode',
+  'User prefers light mode',
+  'Meeting with Sam on Tuesday',
+  'Meeting with Sam on Thursday',
+  'Allergic to peanuts',
+  'Allergic to shellfish',
+  'Drinks coffee without sugar',
+  'Drinks tea without milk',
+  'Speaks French',
+  'Speaks Japanese',
+  'Prefers email over phone calls',
+  'Alice said the project deadline for the mobile app release is the end of March',
+  'Alice said the project deadline for the mobile app release is the end of April',
+  'Alice said the project deadline for the mobile app release is the end of May',
+  'Alice said the project deadline for the mobile app release is the end of June',
+  'Alice said the project deadline for the mobile app release is the end of July',
+  'Alice said the project deadline for the mobile app release is the end of October',
+  'The weekly sync with the platform team has been moved to March',
+  'The weekly sync with the platform team has been moved to April',
+  'The weekly sync with the platform team has been moved to May',
+  'The weekly sync with the platform team has been moved to June',
+  'The quarterly report for the finance team is due at the end of March',
+  'The quarterly report for the finance team is due at the end of April',
+  'The next release of the billing service is planned for June',
+  'The next release of the billing service is planned for July'
+];
+
+function eventOf(id: string, text: string): MemoryEvent {
+  const now = new Date();
+  return {
+    id,
+    type: MemoryEventType.STORE,
+    memoryType: MemoryType.SEMANTIC,
+    context: { version: '1.0.0', sessionId: 's', memoryId: id, flags: '', state: {}, timestamp: now, userId: 'alice' },
+    content: { text },
+    metadata: {
+      source: 'user',
+      confidence: 1,
+      importance: 0.5,
+      accessCount: 0,
+      lastAccessed: now,
+      created: now,
+      updated: now,
+      storageTier: StorageTier.MAIN_CONTEXT
+    },
+    timestamp: now
+  };
+}
+
+describe('Deduplicator', () => {
+  it('does not match distinct short texts at the default threshold', () => {
+    const deduplicator = new Deduplicator({ enabled: true, threshold: 0.9 });
+
+    DISTINCT_SHORT_TEXTS.forEach((text, index) => {
+      const event = eventOf(`m${index}`, text);
+      expect([text, deduplicator.findDuplicate(event)]).toEqual([text, null]);
+      deduplicator.add(event);
+    });
+  });
+
+  it('matches the same text with different case and punctuation', () => {
+    const deduplicator = new Deduplicator({ enabled: true, threshold: 0.9 });
+    deduplicator.add(eventOf('m1', 'User prefers dark mode'));
+
+    expect(deduplicator.findDuplicate(eventOf('m2', 'user prefers DARK mode!'))).toEqual({ memoryId: 'm1', similarity: 1 });
+  });
+
+  it('matches long texts that differ in a word', () => {
+    const text = 'The quarterly planning meeting covered the hiring plan for the platform team, the migration of the billing '
+      + 'service to the new cluster, the budget for conference travel, and the timeline for retiring the legacy reporting '
+      + 'dashboards before the end of the year';
+    const deduplicator = new Deduplicator({ enabled: true, threshold: 0.8 });
+    deduplicator.add(eventOf('m1', text));
+
+    expect(deduplicator.findDuplicate(eventOf('m2', text.replace('quarterly', 'annual')))).toMatchObject({ memoryId: 'm1' });
+  });
+});
+
+describe('MemoryProtocol deduplication', () => {
+  let directory: string;
+
+  const createConfig = (): MemoryProtocolConfig => ({
+    version: '1.0.0',
+    transports: [],
+    storage: [
+      { backend: 'file', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: 'dedup-file', directory } }
+    ],
+    security: {
+      authentication: { type: 'jwt', options: {} },
+      authorization: { enabled: false, rules: [] },
+      encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false }
+    },
+    processing: {
+      embedding: { enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 },
+      chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
+      deduplication: { enabled: true, threshold: 0.9, policy: 'reject' }
+    },
+    consolidation: {
+      enabled: false,
+      strategy: 'hybrid',
+      interval: 3600,
+      batchSize: 100,
+      retention: { working: 3600, episodic: 86400, semantic: -1, procedural: -1, archival: -1 }
+    }
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mmp-dedup-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('rejects duplicates of memories stored before a restart', async () => {
+    const first = new MemoryProtocol(createConfig());
+    await first.initialize();
+    await first.store('Allergic to peanuts', MemoryType.SEMANTIC, await first.createSession('alice'));
+    await first.shutdown();
+
+    const second = new MemoryProtocol(createConfig());
+    await second.initialize();
+    try {
+      const session = await second.createSession('alice');
+      await expect(second.store('Allergic to peanuts', MemoryType.SEMANTIC, session)).rejects.toMatchObject({ code: 409 });
+      await expect(second.store('Allergic to shellfish', MemoryType.SEMANTIC, session)).resolves.toEqual(expect.any(String));
+    } finally {
+      await second.shutdown();
+    }
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  MemoryContent,
+  MemoryEvent,
+  ProcessingConfig,
+  DeduplicationPolicy,
+  StorageBackend
+} from '../core/types.js';
+
+export interface DuplicateMatch {
+  memoryId: string;
+  similarity: number;
+}
+
+/**
+ * The features of a memory that fingerprintSimilarity compares
+ */
+export interface TextFingerprint {
+  simhash: bigint;
+  shingles: Set<number>; // 32-bit hashes of the word shingles
+  embedding?: number[];
+}
+
+interface Fingerprint extends TextFingerprint {
+  scope: string;
+}
+
+const FNV_OFFSET_64 = 0xcbf29ce484222325n;
+const FNV_PRIME_64 = 0x100000001b3n;
+const MASK_64 = (1n << 64n) - 1n;
+const SHINGLE_SIZE = 3;
+const MIN_SIMHASH_SHINGLES = 16; // Below this, SimHash of unrelated texts often agrees on most bits
+const SEED_BATCH_SIZE = 500;
+
+/**
+ * Near-duplicate detector for stored memories
+ * Compares embeddings by cosine similarity when both memories have one.
+ * Otherwise, short texts are compared by the Jaccard similarity of their word
+ * shingles, and longer texts by 64-bit SimHash fingerprints of them.
+ * Candidates are limited to memories of the same namespace (the user by
+ * default) and memory type.
+ */
+export class Deduplicator {
+  public readonly threshold: number;
+  public readonly policy: DeduplicationPolicy;
+
+  private scopes: Map<string, Map<string, Fingerprint>> = new Map();
+  private byId: Map<string, Fingerprint> = new Map();
+  private namespaceOf: (event: MemoryEvent) => string;
+
+  constructor(
+    config: ProcessingConfig['deduplication'],
+    namespaceOf: (event: MemoryEvent) => string = (event) => event.context.userId ?? ''
+  ) {
+    this.threshold = config.threshold;
+    this.policy = config.policy || 'merge';
+    this.namespaceOf = namespaceOf;
+  }
+
+  /**
+   * Find the most similar existing memory at or above the threshold
+   */
+  findDuplicate(event: MemoryEvent): DuplicateMatch | null {
+    const candidates = this.scopes.get(this.scopeOf(event));
+    if (!candidates) {
+      return null;
+    }
+
+    const fingerprint = this.fingerprint(event);
+    let best: DuplicateMatch | null = null;
+
+    for (const [memoryId, candidate] of candidates) {
+      if (memoryId === event.id) {
+        continue;
+      }
+
+      const similarity = fingerprintSimilarity(fingerprint, candidate);
+
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { memoryId, similarity };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Index the memories backends already hold, e.g. stored before a restart
+   * Backends come in priority order, so the first copy of a memory is indexed.
+   * @returns The number of memories indexed
+   */
+  async seed(backends: StorageBackend[]): Promise<number> {
+    const seen = new Set<string>();
+
+    for (const backend of backends) {
+      if (!backend.list) {
+        continue;
+      }
+      for (let offset = 0; ; offset += SEED_BATCH_SIZE) {
+        const batch = await backend.list(offset, SEED_BATCH_SIZE);
+        for (const event of batch) {
+          if (!seen.has(event.id)) {
+            seen.add(event.id);
+            this.add(event);
+          }
+        }
+        if (batch.length < SEED_BATCH_SIZE) {
+          break;
+        }
+      }
+    }
+    return seen.size;
+  }
+
+  add(event: MemoryEvent): void {
+    this.remove(event.id);
+
+    const fingerprint = this.fingerprint(event);
+    if (!this.scopes.has(fingerprint.scope)) {
+      this.scopes.set(fingerprint.scope, new Map());
+    }
+    this.scopes.get(fingerprint.scope)!.set(event.id, fingerprint);
+    this.byId.set(event.id, fingerprint);
+  }
+
+  /**
+   * Refresh the fingerprint of a memory whose content changed
+   */
+  refresh(memoryId: string, content: MemoryContent): void {
+    const existing = this.byId.get(memoryId);
+    if (!existing) {
+      return;
+    }
+
+    Object.assign(existing, textFingerprint(content));
+  }
+
+  remove(memoryId: string): void {
+    const existing = this.byId.get(memoryId);
+    if (!existing) {
+      return;
+    }
+
+    this.scopes.get(existing.scope)?.delete(memoryId);
+    this.byId.delete(memoryId);
+  }
+
+  clear(): void {
+    this.scopes.clear();
+    this.byId.clear();
+  }
+
+  private fingerprint(event: MemoryEvent): Fingerprint {
+    return { scope: this.scopeOf(event), ...textFingerprint(event.content) };
+  }
+
+  private scopeOf(event: MemoryEvent): string {
+    return `${this.namespaceOf(event)}|${event.memoryType}`;
+  }
+}
+
+export function textFingerprint(content: MemoryContent): TextFingerprint {
+  return {
+    simhash: simhash(content.text),
+    shingles: shingleHashes(content.text),
+    embedding: content.embedding
+  };
+}
+
+/**
+ * Similarity of two memories (0-1): the cosine of their embeddings when both
+ * have one, else the Jaccard similarity of their shingles for short texts and
+ * the SimHash similarity for longer ones
+ */
+export function fingerprintSimilarity(a: TextFingerprint, b: TextFingerprint): number {
+  if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  if (Math.min(a.shingles.size, b.shingles.size) < MIN_SIMHASH_SHINGLES) {
+    return jaccardSimilarity(a.shingles, b.shingles);
+  }
+  return simhashSimilarity(a.simhash, b.simhash);
+}
+
+/**
+ * 64-bit SimHash over word shingles of a text
+ */
+export function simhash(text: string, shingleSize = SHINGLE_SIZE): bigint {
+  const weights = new Array<number>(64).fill(0);
+
+  for (const shingle of shinglesOf(text, shingleSize)) {
+    const hash = fnv1a64(shingle);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let result = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      result |= 1n << BigInt(bit);
+    }
+  }
+  return result;
+}
+
+/**
+ * Similarity of two SimHash fingerprints: the share of matching bits
+ */
+export function simhashSimilarity(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return 1 - distance / 64;
+}
+
+/**
+ * Similarity of two sets: the share of their union they have in common
+ */
+export function jaccardSimilarity<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Runs of shingleSize words; a text shorter than that is one shingle
+function shinglesOf(text: string, shingleSize: number): string[] {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+  const size = Math.min(shingleSize, Math.max(words.length, 1));
+  const shingles: string[] = [];
+
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.push(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+function shingleHashes(text: string): Set<number> {
+  return new Set(shinglesOf(text, SHINGLE_SIZE).map(shingle => Number(fnv1a64(shingle) & 0xffffffffn)));
+}
+
+function fnv1a64(input: string): bigint {
+  let hash = FNV_OFFSET_64;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= BigInt(input.charCodeAt(i));
+    hash = (hash * FNV_PRIME_64) & MASK_64;
+  }
+  return hash;
+}
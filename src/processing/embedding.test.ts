@@ -0,0 +1,66 @@
+import { MemoryProtocol } from '../core/memoryProtocol.js';
+import { MemoryProtocolConfig, MemoryType, ProcessingConfig, StorageTier } from '../core/types.js';
+
+let backendCount = 0;
+
+function createConfig(embedding: ProcessingConfig['embedding']): MemoryProtocolConfig {
+  return {
+    version: '1.0.0',
+    transports: [],
+    storage: [
+      { backend: 'in-memory', tier: StorageTier.MAIN_CONTEXT, priority: 1, options: { name: `embedding-${++backendCount}` } }
+    ],
+    security: {
+      authentication: { type: 'jwt', options: {} },
+      authorization: { enabled: false, rules: [] },
+      encryption: { enabled: false, algorithm: 'aes-256-gcm', keyRotation: false }
+    },
+    processing: {
+      embedding,
+      chunking: { strategy: 'fixed', size: 1000, overlap: 200 },
+      deduplication: { enabled: false, threshold: 0.9 }
+    },
+    consolidation: {
+      enabled: false,
+      strategy: 'hybrid',
+      interval: 3600,
+      batchSize: 100,
+      retention: { working: 3600, episodic: 86400, semantic: -1, procedural: -1, archival: -1 }
+    }
+  };
+}
+
+describe('MemoryProtocol embeddings', () => {
+  let protocol: MemoryProtocol;
+
+  afterEach(async () => {
+    await protocol.shutdown();
+  });
+
+  const storedEmbedding = async () => {
+    const sessionId = await protocol.createSession('alice');
+    const memoryId = await protocol.store('Alice keeps her savings plan in the blue folder', MemoryType.SEMANTIC, sessionId);
+    await protocol.flushWrites();
+    return (await protocol.retrieve('', sessionId, { id: memoryId })).memories[0].content.embedding;
+  };
+
+  it('fails to initialize when no provider is registered for the model', async () => {
+    protocol = new MemoryProtocol(createConfig({ model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 }));
+
+    await expect(protocol.initialize()).rejects.toThrow('No embedding provider registered for model text-embedding-ada-002');
+  });
+
+  it('embeds memories with the provider registered for the model', async () => {
+    protocol = new MemoryProtocol(createConfig({ model: 'local-hash', dimensions: 64, batchSize: 100 }));
+    await protocol.initialize();
+
+    expect(await storedEmbedding()).toHaveLength(64);
+  });
+
+  it('stores memories without embeddings when disabled', async () => {
+    protocol = new MemoryProtocol(createConfig({ enabled: false, model: 'text-embedding-ada-002', dimensions: 1536, batchSize: 100 }));
+    await protocol.initialize();
+
+    expect(await storedEmbedding()).toBeUndefined();
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  EmbeddingProvider,
+  MemoryEvent,
+  MemoryProtocolError,
+  ProcessingConfig,
+  DEFAULT_EMBEDDING_DIMENSIONS
+} from '../core/types.js';
+
+/**
+ * Deterministic local embedding provider based on feature hashing
+ * Projects word unigrams and character trigrams into a fixed-size vector,
+ * so it works offline and produces identical vectors across runs
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  public readonly name = 'local-hash';
+  public readonly dimensions: number;
+
+  private ngramSize: number;
+
+  constructor(options: { dimensions?: number; ngramSize?: number } = {}) {
+    this.dimensions = options.dimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+    this.ngramSize = options.ngramSize || 3;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + this.ngramSize <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + this.ngramSize)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // A second hash decides the sign so collisions cancel out instead of piling up
+    const sign = fnv1a(`${feature}~`) & 1 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Embeds memory events and queries through an EmbeddingProvider,
+ * batching requests and validating vector dimensions
+ */
+export class EmbeddingPipeline {
+  private provider: EmbeddingProvider;
+  private model: string;
+  private dimensions: number;
+  private batchSize: number;
+
+  constructor(provider: EmbeddingProvider, config?: Partial<ProcessingConfig['embedding']>) {
+    this.provider = provider;
+    this.model = config?.model || provider.name;
+    this.dimensions = config?.dimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+    this.batchSize = Math.max(1, config?.batchSize || 100);
+
+    if (provider.dimensions !== this.dimensions) {
+      throw new MemoryProtocolError(
+        `Embedding provider ${provider.name} produces ${provider.dimensions}-dimensional vectors, expected ${this.dimensions}`,
+        400,
+        { provider: provider.name, expected: this.dimensions, actual: provider.dimensions }
+      );
+    }
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Fill in missing embeddings for event content and chunks
+   */
+  async embedEvents(events: MemoryEvent[]): Promise<void> {
+    const targets: { text: string; assign: (vector: number[]) => void }[] = [];
+
+    for (const event of events) {
+      if (!event.content.embedding) {
+        targets.push({
+          text: event.content.text,
+          assign: vector => {
+            event.content.embedding = vector;
+            event.content.embeddingModel = this.model;
+          }
+        });
+      }
+
+      for (const chunk of event.content.chunks || []) {
+        if (!chunk.embedding) {
+          targets.push({ text: chunk.text, assign: vector => { chunk.embedding = vector; } });
+        }
+      }
+    }
+
+    const vectors = await this.embedTexts(targets.map(target => target.text));
+    targets.forEach((target, index) => target.assign(vectors[index]));
+  }
+
+  /**
+   * Embed a query string
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedTexts([text]);
+    return vector;
+  }
+
+  private async embedTexts(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const embedded = await this.provider.embed(batch);
+
+      if (embedded.length !== batch.length) {
+        throw new MemoryProtocolError(
+          `Embedding provider ${this.provider.name} returned ${embedded.length} vectors for ${batch.length} texts`,
+          500
+        );
+      }
+
+      for (const vector of embedded) {
+        if (vector.length !== this.dimensions) {
+          throw new MemoryProtocolError(
+            `Embedding dimension mismatch: expected ${this.dimensions}, got ${vector.length}`,
+            500,
+            { provider: this.provider.name, expected: this.dimensions, actual: vector.length }
+          );
+        }
+        vectors.push(vector);
+      }
+    }
+
+    return vectors;
+  }
+}
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,284 @@
+import { createHmac, randomBytes } from 'crypto';
+import {
+  MemoryEvent,
+  MemoryProcessor,
+  MemoryProtocolError,
+  PiiConfig,
+  PiiType,
+  PiiAction,
+  PiiFinding
+} from '../core/types.js';
+
+interface Detector {
+  type: PiiType;
+  pattern: RegExp; // Global; a `value` group narrows the match to the part to replace
+  validate?: (value: string) => boolean;
+}
+
+interface Span {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+/**
+ * Detectors in priority order: where matches overlap, the earlier detector wins,
+ * so a card number is not also reported as a phone number
+ */
+const DETECTORS: Detector[] = [
+  { type: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { type: 'secret', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g, validate: isJwt },
+  { type: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: 'secret', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g },
+  { type: 'secret', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { type: 'secret', pattern: /\b(?:[spr]k_(?:live|test)_[A-Za-z0-9]{16,}|sk-[A-Za-z0-9_-]{20,})/g },
+  {
+    type: 'secret',
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd|pwd|access[_-]?key|client[_-]?secret)\b["']?\s*[:=]\s*["']?(?<value>(?![[*])[^\s"',;]{8,})/gi
+  },
+  { type: 'credit_card', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, validate: isCardNumber },
+  { type: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: isIban },
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  { type: 'ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { type: 'ip_address', pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g, validate: isIpv4 },
+  { type: 'phone', pattern: /(?<![\w+])\+?\(?\d{1,4}\)?(?:[ .-]?\(?\d{1,4}\)?){2,5}(?![\w-])/g, validate: isPhoneNumber }
+];
+
+const LABELS: Record<PiiType, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  credit_card: 'CREDIT_CARD',
+  iban: 'IBAN',
+  ssn: 'SSN',
+  ip_address: 'IP_ADDRESS',
+  secret: 'SECRET'
+};
+
+/**
+ * MemoryProcessor that finds personal data and secrets in memory text
+ *
+ * Values are found by pattern and confirmed by checksum where one exists (Luhn
+ * for card numbers, mod-97 for IBANs). Each is then
+ * - redact: replaced by a label such as [REDACTED:EMAIL]
+ * - mask: hidden except for its last four characters (emails keep their domain)
+ * - hash: replaced by a keyed hash, so equal values still match, e.g. [EMAIL:3f9a...]
+ * - reject: the memory is refused with a 400 naming the types found
+ *
+ * Text, chunk texts and keywords are processed. What was replaced, but never the
+ * values themselves, is recorded in metadata.pii as PiiFindings.
+ */
+export class PiiRedactor implements MemoryProcessor {
+  public readonly name = 'pii-redactor';
+
+  private action: PiiAction;
+  private actions: Partial<Record<PiiType, PiiAction>>;
+  private detectors: Detector[];
+  private allowList: Set<string>;
+  private hashKey: Buffer;
+
+  constructor(config: Partial<PiiConfig> = {}) {
+    this.action = config.action || 'redact';
+    this.actions = config.actions || {};
+    this.allowList = new Set((config.allowList || []).map(value => value.toLowerCase()));
+    this.hashKey = config.hashKey ? Buffer.from(config.hashKey) : randomBytes(32);
+
+    for (const type of config.types || []) {
+      if (!(type in LABELS)) {
+        throw new MemoryProtocolError(`Unknown PII type: ${type}`, 400, { type });
+      }
+    }
+    const types = config.types ? new Set(config.types) : null;
+    this.detectors = DETECTORS.filter(detector => !types || types.has(detector.type));
+  }
+
+  async process(events: MemoryEvent[]): Promise<MemoryEvent[]> {
+    return events.map(event => this.processEvent(event));
+  }
+
+  /**
+   * Find the personal data in a text without changing it
+   */
+  detect(text: string): { type: PiiType; value: string }[] {
+    return this.findSpans(text).map(span => ({ type: span.type, value: text.slice(span.start, span.end) }));
+  }
+
+  // Private helper methods
+
+  private processEvent(event: MemoryEvent): MemoryEvent {
+    const text = this.findSpans(event.content.text);
+    const chunks = (event.content.chunks || []).map(chunk => this.findSpans(chunk.text));
+    const keywords = (event.content.keywords || []).map(keyword => this.findSpans(keyword));
+    if (text.length === 0 && chunks.every(spans => spans.length === 0) && keywords.every(spans => spans.length === 0)) {
+      return event;
+    }
+
+    // Chunks and keywords are cut from the text, so what is found in them is counted once
+    const counted = text.length > 0 ? text : [...chunks.flat(), ...keywords.flat()];
+    const rejected = Array.from(new Set(counted.map(span => span.type))).filter(type => this.actionFor(type) === 'reject');
+    if (rejected.length > 0) {
+      throw new MemoryProtocolError(
+        `Memory contains sensitive data: ${rejected.join(', ')}`,
+        400,
+        { memoryId: event.id, types: rejected }
+      );
+    }
+
+    const content = { ...event.content, text: this.replace(event.content.text, text) };
+    if (event.content.chunks) {
+      content.chunks = event.content.chunks.map((chunk, index) => ({ ...chunk, text: this.replace(chunk.text, chunks[index]) }));
+    }
+    if (event.content.keywords) {
+      content.keywords = event.content.keywords.map((keyword, index) => this.replace(keyword, keywords[index]));
+    }
+
+    return {
+      ...event,
+      content,
+      metadata: { ...event.metadata, pii: this.record(event.metadata.pii, counted) }
+    };
+  }
+
+  private findSpans(text: string): Span[] {
+    const spans: Span[] = [];
+
+    for (const detector of this.detectors) {
+      detector.pattern.lastIndex = 0;
+      for (const match of text.matchAll(detector.pattern)) {
+        const value = match.groups?.value ?? match[0];
+        const start = match.index! + match[0].lastIndexOf(value);
+        const end = start + value.length;
+
+        if ((detector.validate && !detector.validate(value)) || this.allowList.has(value.toLowerCase())) {
+          continue;
+        }
+        if (spans.some(span => start < span.end && end > span.start)) {
+          continue;
+        }
+        spans.push({ type: detector.type, start, end });
+      }
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+  }
+
+  private replace(text: string, spans: Span[]): string {
+    let result = '';
+    let position = 0;
+
+    for (const span of spans) {
+      result += text.slice(position, span.start) + this.replacement(span.type, text.slice(span.start, span.end));
+      position = span.end;
+    }
+    return result + text.slice(position);
+  }
+
+  private replacement(type: PiiType, value: string): string {
+    switch (this.actionFor(type)) {
+      case 'mask':
+        return mask(type, value);
+      case 'hash': {
+        const digest = createHmac('sha256', this.hashKey).update(`${type}:${value.toLowerCase()}`).digest('hex');
+        return `[${LABELS[type]}:${digest.slice(0, 16)}]`;
+      }
+      default:
+        return `[REDACTED:${LABELS[type]}]`;
+    }
+  }
+
+  private actionFor(type: PiiType): PiiAction {
+    return this.actions[type] || this.action;
+  }
+
+  // Add to what earlier processing of the memory recorded
+  private record(previous: PiiFinding[] | undefined, spans: Span[]): PiiFinding[] {
+    const findings = (previous || []).map(finding => ({ ...finding }));
+
+    for (const span of spans) {
+      const action = this.actionFor(span.type) as PiiFinding['action'];
+      const existing = findings.find(finding => finding.type === span.type && finding.action === action);
+      if (existing) {
+        existing.count++;
+      } else {
+        findings.push({ type: span.type, action, count: 1 });
+      }
+    }
+    return findings;
+  }
+}
+
+// Validators
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19 || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  // Luhn checksum
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isIban(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  // ISO 13616: move the country code and check digits to the end, letters become 10-35, remainder mod 97 is 1
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// 10 to 15 digits, written with separators or an international prefix, so plain numbers, ids and dates are left alone
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 10 && digits.length <= 15
+    && (value.startsWith('+') || /[ .()-]/.test(value))
+    && !/^\d{4}-\d{2}-\d{2}\b/.test(value);
+}
+
+function isIpv4(value: string): boolean {
+  return value.split('.').every(octet => Number(octet) <= 255 && (octet === '0' || !octet.startsWith('0')));
+}
+
+function isJwt(value: string): boolean {
+  try {
+    const header = JSON.parse(Buffer.from(value.split('.')[0], 'base64url').toString('utf8'));
+    return typeof header?.alg === 'string';
+  } catch {
+    return false;
+  }
+}
+
+function mask(type: PiiType, value: string): string {
+  if (type === 'email') {
+    const at = value.lastIndexOf('@');
+    return `${value[0]}***${value.slice(at)}`;
+  }
+  if (type === 'secret') {
+    return '*'.repeat(Math.min(value.length, 12));
+  }
+
+  // Keep separators and the last four digits or letters
+  const hidden = (value.match(/[A-Za-z0-9]/g) || []).length - 4;
+  let seen = 0;
+  return value.replace(/[A-Za-z0-9]/g, char => (seen++ < hidden ? '*' : char));
+}
@@ -0,0 +1,123 @@
+import { EncryptedBackend } from './encryptedBackend.js';
+import { InMemoryBackend } from './inMemoryBackend.js';
+import { LocalKeyProvider } from '../core/keyProvider.js';
+import { MemoryEvent, MemoryEventType, MemoryType, StorageTier } from '../core/types.js';
+
+const TEXT = 'Alice keeps her savings plan in the blue folder';
+
+function eventOf(id: string, text: string, keywords = ['savings', 'folder']): MemoryEvent {
+  const now = new Date();
+  return {
+    id,
+    type: MemoryEventType.STORE,
+    memoryType: MemoryType.SEMANTIC,
+    context: { version: '1.0.0', sessionId: 's', memoryId: id, flags: '', state: {}, timestamp: now, userId: 'alice' },
+    content: { text, keywords },
+    metadata: {
+      source: 'user',
+      confidence: 1,
+      importance: 0.5,
+      accessCount: 0,
+      lastAccessed: now,
+      created: now,
+      updated: now,
+      storageTier: StorageTier.MAIN_CONTEXT,
+      project: 'finance'
+    },
+    timestamp: now
+  };
+}
+
+describe('EncryptedBackend', () => {
+  let inner: InMemoryBackend;
+  let backend: EncryptedBackend;
+
+  beforeEach(async () => {
+    inner = new InMemoryBackend();
+    backend = new EncryptedBackend(inner, new LocalKeyProvider());
+    await backend.initialize();
+    await backend.store(eventOf('m1', TEXT));
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  describe('store and retrieve', () => {
+    it('keeps only blind tokens and ciphertext in the wrapped backend', async () => {
+      const [stored] = await inner.list(0, 10);
+
+      expect(stored.content.text).not.toContain('savings');
+      expect(stored.content.keywords).not.toContain('savings');
+      expect(stored.metadata.project).toBeUndefined();
+      expect(stored.metadata.encryption).toMatchObject({ v: 1, keyId: 'k1' });
+      expect(stored.metadata.importance).toBe(0.5);
+    });
+
+    it('decrypts what it stored', async () => {
+      const event = (await backend.get('m1'))!;
+
+      expect(event.content).toMatchObject({ text: TEXT, keywords: ['savings', 'folder'] });
+      expect(event.metadata.project).toBe('finance');
+      expect(event.metadata.created).toBeInstanceOf(Date);
+      expect(event.metadata.encryption).toBeUndefined();
+    });
+
+    it('finds memories by whole terms of their text', async () => {
+      await backend.store(eventOf('m2', 'Bob keeps his travel plan in the red folder', ['travel', 'folder']));
+
+      expect((await backend.retrieve({ query: 'savings' })).memories.map(memory => memory.id)).toEqual(['m1']);
+      expect((await backend.retrieve({ query: 'travel' })).memories.map(memory => memory.content.text))
+        .toEqual(['Bob keeps his travel plan in the red folder']);
+    });
+
+    it('filters on encrypted metadata', async () => {
+      const other = eventOf('m2', 'Bob keeps his travel plan in the red folder', ['travel', 'folder']);
+      other.metadata.project = 'travel';
+      await backend.store(other);
+
+      const result = await backend.retrieve({ query: 'folder', filters: { project: 'travel' } });
+      expect(result.memories.map(memory => memory.id)).toEqual(['m2']);
+      expect(result.totalCount).toBe(1);
+    });
+
+    it('refuses ciphertext moved to another memory', async () => {
+      const [stored] = await inner.list(0, 10);
+      await inner.store({ ...stored, id: 'copy' });
+
+      await expect(backend.get('copy')).rejects.toThrow('Cannot decrypt memory copy');
+    });
+  });
+
+  describe('update', () => {
+    it('reseals new content and drops the old terms from search', async () => {
+      const current = (await backend.get('m1'))!;
+      await backend.update('m1', { content: { ...current.content, text: 'Alice moved her savings plan to the green binder' } });
+
+      expect((await backend.get('m1'))!.content.text).toBe('Alice moved her savings plan to the green binder');
+      expect((await backend.retrieve({ query: 'binder' })).memories.map(memory => memory.id)).toEqual(['m1']);
+      expect((await backend.retrieve({ query: 'blue' })).memories).toHaveLength(0);
+    });
+
+    it('keeps the text of a memory when only its metadata changes', async () => {
+      const current = (await backend.get('m1'))!;
+      await backend.update('m1', { metadata: { ...current.metadata, importance: 0.9 } });
+
+      const updated = (await backend.get('m1'))!;
+      expect(updated.content.text).toBe(TEXT);
+      expect(updated.content.keywords).toEqual(['savings', 'folder']);
+      expect(updated.metadata).toMatchObject({ importance: 0.9, project: 'finance' });
+
+      const result = await backend.retrieve({ query: 'savings plan' });
+      expect(result.memories.map(memory => memory.content.text)).toEqual([TEXT]);
+    });
+
+    it('keeps the text of a memory when only its context changes', async () => {
+      const current = (await backend.get('m1'))!;
+      await backend.update('m1', { context: { ...current.context, flags: 'pinned' } });
+
+      const result = await backend.retrieve({ query: 'blue folder' });
+      expect(result.memories.map(memory => [memory.content.text, memory.context.flags])).toEqual([[TEXT, 'pinned']]);
+    });
+  });
+});
@@ -0,0 +1,391 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+import {
+  StorageBackend,
+  StorageTier,
+  MemoryEvent,
+  MemoryQuery,
+  MemorySearchResult,
+  MemoryMetadata,
+  MemoryContent,
+  GraphTraversalOptions,
+  RelatedMemory,
+  KeyProvider,
+  StorageError,
+  FilterExpression,
+  DEFAULT_SEARCH_LIMIT
+} from '../core/types.js';
+import { tokenize } from './textIndex.js';
+import { evaluateFilter, filterPath, filterPaths } from './filterExpression.js';
+
+export interface EncryptedBackendOptions {
+  encryptedMetadata?: string[]; // Default: every field not in PLAINTEXT_METADATA, which are never encrypted
+}
+
+/**
+ * Ciphertext of a memory's private fields, kept as metadata.encryption
+ */
+export interface EncryptionEnvelope {
+  v: 1;
+  keyId: string;
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64 AES-256-GCM ciphertext of SealedFields
+}
+
+interface SealedFields {
+  text: string;
+  keywords?: string[];
+  chunks?: string[]; // Chunk texts, by position in content.chunks
+  metadata: Record<string, unknown>;
+}
+
+// The required MemoryMetadata fields, which backends store in columns and rank, route and filter by
+const PLAINTEXT_METADATA = new Set([
+  'source', 'confidence', 'importance', 'accessCount', 'lastAccessed', 'created', 'updated',
+  'storageTier', 'compressionLevel', 'tags'
+]);
+
+// Content fields replaced by ciphertext and blind tokens
+const SEALED_CONTENT = new Set(['text', 'keywords', 'chunks']);
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Storage backend wrapper that encrypts memories at rest
+ * Text, keywords, chunk texts and private metadata are sealed with AES-256-GCM
+ * under a data key derived per tenant (user) from the provider's master key.
+ * The stored text is replaced by blind tokens, keyed hashes of its terms, and
+ * query text is blinded the same way, so the wrapped backend's text search still
+ * matches whole terms. Embeddings, tags and relationships are stored as they are.
+ * Filters on sealed fields are evaluated here, after decryption.
+ */
+export class EncryptedBackend implements StorageBackend {
+  public readonly name: string;
+  public readonly type: StorageTier;
+
+  public readonly consolidate?: (events: MemoryEvent[]) => Promise<MemoryEvent[]>;
+  public readonly expand?: (memoryIds: string[], options?: GraphTraversalOptions) => Promise<RelatedMemory[]>;
+  public readonly list?: (offset?: number, limit?: number) => Promise<MemoryEvent[]>;
+
+  private inner: StorageBackend;
+  private keys: KeyProvider;
+  private encryptedMetadata: Set<string> | null;
+  private dataKeys: Map<string, Buffer> = new Map();
+
+  constructor(inner: StorageBackend, keys: KeyProvider, options: EncryptedBackendOptions = {}) {
+    this.inner = inner;
+    this.keys = keys;
+    this.name = inner.name;
+    this.type = inner.type;
+    this.encryptedMetadata = options.encryptedMetadata ? new Set(options.encryptedMetadata) : null;
+
+    // Consolidation works on the decrypted events it is given
+    if (inner.consolidate) {
+      this.consolidate = (events) => inner.consolidate!(events);
+    }
+    if (inner.expand) {
+      this.expand = async (memoryIds, traversal) => {
+        const related = await inner.expand!(memoryIds, traversal);
+        return Promise.all(related.map(async entry => ({ ...entry, memory: await this.open(entry.memory) })));
+      };
+    }
+    // Callers skip backends that cannot list, so only offer it when the wrapped backend can
+    if (inner.list) {
+      this.list = async (offset, limit) => {
+        const events = await inner.list!(offset, limit);
+        return Promise.all(events.map(event => this.open(event)));
+      };
+    }
+  }
+
+  /**
+   * The backend holding the ciphertext
+   */
+  getInner(): StorageBackend {
+    return this.inner;
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+  }
+
+  async store(event: MemoryEvent): Promise<void> {
+    await this.inner.store(await this.seal(event));
+  }
+
+  async retrieve(query: MemoryQuery): Promise<MemorySearchResult> {
+    const blinded: MemoryQuery = query.query
+      ? { ...query, query: await this.blindText(query.query) }
+      : query;
+
+    if (query.filters && this.isSealedFilter(query.filters)) {
+      return this.retrieveSealedFilter(query, blinded);
+    }
+
+    return this.openResult(await this.inner.retrieve(blinded), query);
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    if (!updates.content && !updates.metadata && !updates.context) {
+      await this.inner.update(id, updates);
+      return;
+    }
+
+    // Sealed fields are encrypted together, so reseal the whole memory as updated
+    const current = await this.read(id);
+    if (!current) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    // Fields the update leaves alone are still sealed in the stored record
+    const sealed = await this.seal({ ...(await this.open(current)), ...updates, id });
+    await this.inner.update(id, {
+      ...updates,
+      content: sealed.content,
+      metadata: sealed.metadata,
+      ...(updates.context ? { context: sealed.context } : {})
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.inner.delete(id);
+  }
+
+  async get(id: string): Promise<MemoryEvent | undefined> {
+    const event = await this.read(id);
+    return event && this.open(event);
+  }
+
+  async close(): Promise<void> {
+    this.dataKeys.clear();
+    await this.inner.close();
+  }
+
+  /**
+   * Reseal memories encrypted under an older key with the current one
+   * @returns The number of memories re-encrypted
+   */
+  async reencrypt(batchSize = 100): Promise<number> {
+    if (!this.inner.list) {
+      return 0;
+    }
+
+    const currentKeyId = await this.keys.currentKeyId();
+    let reencrypted = 0;
+
+    for (let offset = 0; ; offset += batchSize) {
+      const batch = await this.inner.list(offset, batchSize);
+
+      for (const event of batch) {
+        const envelope = event.metadata.encryption as EncryptionEnvelope | undefined;
+        if (envelope && envelope.keyId === currentKeyId) {
+          continue;
+        }
+
+        const sealed = await this.seal(await this.open(event));
+        await this.inner.update(event.id, { content: sealed.content, metadata: sealed.metadata });
+        reencrypted++;
+      }
+
+      if (batch.length < batchSize) {
+        return reencrypted;
+      }
+    }
+  }
+
+  // Private helper methods
+
+  // The wrapped backend only sees ciphertext, so it returns every match for the query
+  // and the filter and page are applied to the decrypted memories
+  private async retrieveSealedFilter(query: MemoryQuery, blinded: MemoryQuery): Promise<MemorySearchResult> {
+    const { filters, offset: _offset, limit: _limit, ...unfiltered } = blinded;
+    const offset = query.offset || 0;
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+
+    const result = await this.openResult(
+      await this.inner.retrieve({ ...unfiltered, offset: 0, limit: Number.MAX_SAFE_INTEGER }),
+      query
+    );
+    const matching = result.memories.filter(event => evaluateFilter(event, filters!));
+    const memories = matching.slice(offset, offset + limit);
+    const returned = new Set(memories.map(event => event.id));
+
+    return {
+      ...result,
+      memories,
+      totalCount: matching.length,
+      ...(result.chunkMatches ? { chunkMatches: result.chunkMatches.filter(match => returned.has(match.memoryId)) } : {})
+    };
+  }
+
+  private async openResult(result: MemorySearchResult, query: MemoryQuery): Promise<MemorySearchResult> {
+    const memories = await Promise.all(result.memories.map(event => this.open(event)));
+    const opened = new Map(memories.map(event => [event.id, event]));
+
+    return {
+      ...result,
+      memories,
+      query,
+      ...(result.chunkMatches ? {
+        chunkMatches: result.chunkMatches.map(match => ({
+          ...match,
+          chunk: opened.get(match.memoryId)?.content.chunks?.find(chunk => chunk.id === match.chunk.id) ?? match.chunk
+        }))
+      } : {})
+    };
+  }
+
+  private isSealedFilter(filter: FilterExpression): boolean {
+    return filterPaths(filter).some(path => {
+      const [root, field] = filterPath(path);
+      return field === undefined
+        ? root === 'content' || root === 'metadata'
+        : (root === 'content' && SEALED_CONTENT.has(field)) || (root === 'metadata' && this.isEncrypted(field));
+    });
+  }
+
+  private async read(id: string): Promise<MemoryEvent | undefined> {
+    if (this.inner.get) {
+      return this.inner.get(id);
+    }
+    const result = await this.inner.retrieve({ query: '', id, limit: 1 });
+    return result.memories[0];
+  }
+
+  private async seal(event: MemoryEvent): Promise<MemoryEvent> {
+    const keyId = await this.keys.currentKeyId();
+    const key = await this.dataKey(keyId, tenantOf(event));
+
+    const { encryption: _previous, ...metadata } = event.metadata;
+    const sealedMetadata: Record<string, unknown> = {};
+    for (const field of Object.keys(metadata).filter(field => this.isEncrypted(field))) {
+      sealedMetadata[field] = metadata[field];
+      delete metadata[field];
+    }
+
+    const fields: SealedFields = {
+      text: event.content.text,
+      ...(event.content.keywords ? { keywords: event.content.keywords } : {}),
+      ...(event.content.chunks ? { chunks: event.content.chunks.map(chunk => chunk.text) } : {}),
+      metadata: sealedMetadata
+    };
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(associatedData(event));
+    const data = Buffer.concat([cipher.update(serialize(fields), 'utf8'), cipher.final()]);
+
+    const envelope: EncryptionEnvelope = {
+      v: 1,
+      keyId,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    const content: MemoryContent = {
+      ...event.content,
+      text: await this.blindText(event.content.text),
+      ...(event.content.keywords ? { keywords: await this.blindTerms(event.content.keywords) } : {}),
+      ...(event.content.chunks ? {
+        chunks: await Promise.all(event.content.chunks.map(async chunk => ({ ...chunk, text: await this.blindText(chunk.text) })))
+      } : {})
+    };
+
+    return {
+      ...event,
+      content,
+      metadata: { ...metadata, encryption: envelope }
+    };
+  }
+
+  private async open(event: MemoryEvent): Promise<MemoryEvent> {
+    const envelope = event.metadata.encryption as EncryptionEnvelope | undefined;
+    if (!envelope) {
+      return event; // Stored before encryption was enabled
+    }
+    if (envelope.v !== 1) {
+      throw new StorageError(`Unsupported encryption envelope version: ${envelope.v}`, { memoryId: event.id });
+    }
+
+    let fields: SealedFields;
+    try {
+      const key = await this.dataKey(envelope.keyId, tenantOf(event));
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'));
+      decipher.setAAD(associatedData(event));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+      fields = deserialize(plaintext.toString('utf8'));
+    } catch (error: any) {
+      throw new StorageError(`Cannot decrypt memory ${event.id}: ${error.message}`, { memoryId: event.id, keyId: envelope.keyId });
+    }
+
+    const { encryption: _envelope, ...metadata } = event.metadata;
+    const content: MemoryContent = { ...event.content, text: fields.text };
+    if (fields.keywords) {
+      content.keywords = fields.keywords;
+    }
+    if (fields.chunks && event.content.chunks) {
+      content.chunks = event.content.chunks.map((chunk, index) => ({ ...chunk, text: fields.chunks![index] ?? chunk.text }));
+    }
+
+    return {
+      ...event,
+      content,
+      metadata: { ...metadata, ...fields.metadata } as MemoryMetadata
+    };
+  }
+
+  private isEncrypted(field: string): boolean {
+    return !PLAINTEXT_METADATA.has(field) && (!this.encryptedMetadata || this.encryptedMetadata.has(field));
+  }
+
+  private async dataKey(keyId: string, tenant: string): Promise<Buffer> {
+    const cacheKey = `${keyId}\u0000${tenant}`;
+    let key = this.dataKeys.get(cacheKey);
+    if (!key) {
+      const master = await this.keys.getKey(keyId);
+      key = Buffer.from(hkdfSync('sha256', master, Buffer.alloc(0), `mmp:data:${tenant}`, 32));
+      this.dataKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+
+  private async blindText(text: string): Promise<string> {
+    return (await this.blindTerms(tokenize(text))).join(' ');
+  }
+
+  // Blind tokens contain a digit, so backends index them verbatim rather than stemming them
+  private async blindTerms(terms: string[]): Promise<string[]> {
+    const indexKey = await this.keys.getIndexKey();
+    return terms.flatMap(term => tokenize(term)).map(term =>
+      `b0${createHmac('sha256', indexKey).update(term).digest('hex').slice(0, 20)}`
+    );
+  }
+}
+
+// Per-tenant keys follow the user namespace of tenant isolation
+function tenantOf(event: MemoryEvent): string {
+  return event.context.userId ?? '';
+}
+
+// Binds ciphertext to its memory and tenant, so it cannot be moved to another record
+function associatedData(event: MemoryEvent): Buffer {
+  return Buffer.from(`${event.id}\u0000${tenantOf(event)}`);
+}
+
+// Dates survive the round trip through JSON
+function serialize(fields: SealedFields): string {
+  return JSON.stringify(fields, function (key, value) {
+    const original = this[key];
+    return original instanceof Date ? { $date: original.toISOString() } : value;
+  });
+}
+
+function deserialize(json: string): SealedFields {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+      ? new Date(value.$date)
+      : value
+  );
+}
@@ -0,0 +1,322 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  MemoryEvent,
+  StorageTier,
+  StorageError
+} from '../core/types.js';
+import { InMemoryBackend, InMemoryBackendOptions } from './inMemoryBackend.js';
+import { reviveEvent } from './serialization.js';
+
+export interface FileBackendOptions extends InMemoryBackendOptions {
+  directory: string;
+  fsync?: boolean; // Flush every log write to disk before acknowledging it, defaults to true
+  compactionThreshold?: number; // Log records before the log is folded into a snapshot, defaults to 1000
+  snapshotInterval?: number; // in seconds between periodic snapshots, defaults to 0 (disabled)
+}
+
+type LogEntry =
+  | { op: 'put'; event: MemoryEvent }
+  | { op: 'delete'; id: string };
+
+type LogRecord = LogEntry & { seq: number };
+
+interface Snapshot {
+  version: number;
+  seq: number; // Last log record included in the snapshot
+  events: MemoryEvent[];
+}
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const LOG_FILE = 'wal.log';
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Durable storage backend for external context
+ * Serves reads from memory and persists every write to an append-only log
+ * (wal.log) before acknowledging it. The log is periodically compacted into
+ * snapshot.json. On startup the snapshot is loaded and the log replayed;
+ * a record torn by a crash mid-write is discarded from the tail.
+ */
+export class FileBackend extends InMemoryBackend {
+  public readonly name: string = 'file';
+  public readonly type: StorageTier = StorageTier.EXTERNAL_CONTEXT;
+
+  private directory: string;
+  private fsync: boolean;
+  private compactionThreshold: number;
+  private snapshotInterval: number;
+  private log: fs.FileHandle | null = null;
+  private seq = 0;
+  private logRecords = 0;
+  private writes: Promise<unknown> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: FileBackendOptions) {
+    super(options);
+
+    if (!options?.directory) {
+      throw new StorageError('File backend requires a directory');
+    }
+
+    this.directory = options.directory;
+    this.fsync = options.fsync ?? true;
+    this.compactionThreshold = options.compactionThreshold || 1000;
+    this.snapshotInterval = options.snapshotInterval || 0;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      throw new StorageError('Backend already initialized');
+    }
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.rm(this.path(`${SNAPSHOT_FILE}.tmp`), { force: true });
+      await this.loadSnapshot();
+      await this.replayLog();
+      this.log = await fs.open(this.path(LOG_FILE), 'a');
+    } catch (error: any) {
+      this.clear();
+      throw error instanceof StorageError
+        ? error
+        : new StorageError(`Failed to open file backend: ${error.message}`, { directory: this.directory });
+    }
+
+    if (this.snapshotInterval > 0) {
+      this.timer = setInterval(() => {
+        this.compact().catch(() => undefined);
+      }, this.snapshotInterval * 1000);
+      this.timer.unref();
+    }
+
+    await super.initialize();
+  }
+
+  async store(event: MemoryEvent): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    await this.append({ op: 'put', event }, () => super.store(event));
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    const existing = this.events.get(id);
+    if (!existing) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    const updated: MemoryEvent = {
+      ...existing,
+      ...updates,
+      id,
+      metadata: { ...(updates.metadata || existing.metadata), updated: new Date() }
+    };
+    await this.append({ op: 'put', event: updated }, async () => {
+      this.putEvent(updated);
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    if (!this.events.has(id)) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    await this.append({ op: 'delete', id }, () => super.delete(id));
+  }
+
+  /**
+   * Fold the log into a new snapshot and truncate it
+   */
+  async compact(): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    await this.enqueue(() => this.writeSnapshot());
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.initialized) {
+      // A final snapshot also captures access metadata, which is not logged
+      await this.compact();
+      await this.log?.close();
+      this.log = null;
+    }
+
+    await super.close();
+  }
+
+  // Private helper methods
+
+  private async append(record: LogEntry, apply: () => Promise<void>): Promise<void> {
+    await this.enqueue(async () => {
+      const entry: LogRecord = { seq: this.seq + 1, ...record };
+
+      try {
+        await this.log!.appendFile(`${JSON.stringify(entry)}\n`);
+        if (this.fsync) {
+          await this.log!.sync();
+        }
+      } catch (error: any) {
+        throw new StorageError(`Failed to write to log: ${error.message}`, { directory: this.directory });
+      }
+
+      // Apply only once the record is durable
+      this.seq = entry.seq;
+      this.logRecords++;
+      await apply();
+
+      if (this.logRecords >= this.compactionThreshold) {
+        await this.writeSnapshot();
+      }
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    // Log writes and snapshots run one at a time, in submission order
+    const next = this.writes.then(task);
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      seq: this.seq,
+      events: Array.from(this.events.values())
+    };
+    const temporary = this.path(`${SNAPSHOT_FILE}.tmp`);
+
+    // Write aside and rename, so a crash leaves either the old or the new snapshot intact
+    const handle = await fs.open(temporary, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(snapshot));
+      if (this.fsync) {
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temporary, this.path(SNAPSHOT_FILE));
+    await this.syncDirectory();
+
+    // Records up to snapshot.seq are skipped on replay, so a crash before truncation is harmless
+    await this.log?.truncate(0);
+    if (this.fsync) {
+      await this.log?.sync();
+    }
+    this.logRecords = 0;
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path(SNAPSHOT_FILE), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let snapshot: Snapshot;
+    try {
+      snapshot = JSON.parse(contents);
+    } catch {
+      throw new StorageError('Snapshot is corrupt', { file: this.path(SNAPSHOT_FILE) });
+    }
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new StorageError(`Unsupported snapshot version: ${snapshot.version}`, { file: this.path(SNAPSHOT_FILE) });
+    }
+
+    for (const event of snapshot.events) {
+      this.putEvent(reviveEvent(event));
+    }
+    this.seq = snapshot.seq;
+  }
+
+  private async replayLog(): Promise<void> {
+    let contents: Buffer;
+    try {
+      contents = await fs.readFile(this.path(LOG_FILE));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let offset = 0;
+    while (offset < contents.length) {
+      const end = contents.indexOf(0x0a, offset);
+
+      // A record without its newline was cut short by a crash; nothing after it was acknowledged
+      if (end === -1) {
+        break;
+      }
+
+      let record: LogRecord;
+      try {
+        record = JSON.parse(contents.toString('utf8', offset, end));
+      } catch {
+        if (end === contents.length - 1) {
+          break;
+        }
+        throw new StorageError(`Log is corrupt at byte ${offset}`, { file: this.path(LOG_FILE) });
+      }
+
+      if (record.seq > this.seq) {
+        if (record.op === 'put') {
+          this.putEvent(reviveEvent(record.event));
+        } else {
+          this.dropEvent(record.id);
+        }
+        this.seq = record.seq;
+        this.logRecords++;
+      }
+      offset = end + 1;
+    }
+
+    if (offset < contents.length) {
+      await fs.truncate(this.path(LOG_FILE), offset);
+    }
+  }
+
+  private async syncDirectory(): Promise<void> {
+    if (!this.fsync) {
+      return;
+    }
+
+    // Persist the rename itself; not every platform can open a directory
+    try {
+      const handle = await fs.open(this.directory, 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+
+  private path(file: string): string {
+    return join(this.directory, file);
+  }
+}
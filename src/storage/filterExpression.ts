@@ -0,0 +1,293 @@
+import { MemoryEvent, FilterExpression, MemoryProtocolError } from '../core/types.js';
+
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$not']);
+const FIELD_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$contains', '$exists']);
+
+// Top-level MemoryEvent fields; paths starting with anything else refer to metadata
+const ROOT_FIELDS = new Set(['id', 'type', 'memoryType', 'timestamp', 'ttl', 'context', 'content', 'metadata']);
+
+// Filters already validated, so backends can evaluate them per event cheaply
+const validated = new WeakSet<object>();
+
+/**
+ * Reject malformed filter expressions with a MemoryProtocolError (400)
+ * naming the offending path
+ */
+export function validateFilter(filter: unknown): asserts filter is FilterExpression {
+  if (isPlainObject(filter) && validated.has(filter)) {
+    return;
+  }
+
+  validateExpression(filter, 'filters');
+  validated.add(filter as object);
+}
+
+/**
+ * Reference evaluator for filter expressions; every backend filters through it
+ */
+export function evaluateFilter(event: MemoryEvent, filter: FilterExpression): boolean {
+  validateFilter(filter);
+  return evaluateExpression(event, filter);
+}
+
+/**
+ * Split a filter path into segments from the event root, mapping bare keys to metadata
+ */
+export function filterPath(path: string): string[] {
+  const segments = path.split('.');
+  return ROOT_FIELDS.has(segments[0]) ? segments : ['metadata', ...segments];
+}
+
+/**
+ * Every path a filter expression tests, including those inside $and, $or and $not
+ */
+export function filterPaths(filter: FilterExpression): string[] {
+  return Object.entries(filter).flatMap(([key, condition]) => {
+    if (key === '$and' || key === '$or') {
+      return (condition as FilterExpression[]).flatMap(filterPaths);
+    }
+    return key === '$not' ? filterPaths(condition as FilterExpression) : [key];
+  });
+}
+
+/**
+ * Value of a filter path on an event. Arrays along the path are traversed
+ * element-wise, so 'content.relationships.type' yields every relationship type.
+ */
+export function resolveFilterPath(event: MemoryEvent, path: string): unknown {
+  return walk(event, filterPath(path));
+}
+
+/**
+ * Millisecond time of a Date, ISO date string or epoch number
+ */
+export function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.getTime();
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a condition value is an operator object such as { $gt: 3 }
+ */
+export function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+}
+
+// Validation
+
+function validateExpression(expression: unknown, where: string): void {
+  if (!isPlainObject(expression)) {
+    throw invalid(where, 'expected an object of paths and conditions');
+  }
+
+  for (const [key, condition] of Object.entries(expression)) {
+    const path = `${where}.${key}`;
+
+    if (key.startsWith('$')) {
+      if (!LOGICAL_OPERATORS.has(key)) {
+        throw invalid(path, 'unknown logical operator; use $and, $or or $not, or field operators inside a path');
+      }
+      if (key === '$not') {
+        validateExpression(condition, path);
+      } else {
+        if (!Array.isArray(condition) || condition.length === 0) {
+          throw invalid(path, `${key} expects a non-empty array of filter expressions`);
+        }
+        condition.forEach((item, index) => validateExpression(item, `${path}[${index}]`));
+      }
+      continue;
+    }
+
+    if (key.split('.').some(segment => segment === '')) {
+      throw invalid(path, 'empty segment in path');
+    }
+    validateCondition(condition, path);
+  }
+}
+
+function validateCondition(condition: unknown, path: string): void {
+  if (!isPlainObject(condition) || !Object.keys(condition).some(key => key.startsWith('$'))) {
+    return; // Literal value, compared for equality
+  }
+  if (!isOperatorObject(condition)) {
+    throw invalid(path, 'cannot mix operators and literal fields in one condition');
+  }
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    const where = `${path}.${operator}`;
+
+    if (!FIELD_OPERATORS.has(operator)) {
+      throw invalid(where, `unknown operator; supported operators are ${Array.from(FIELD_OPERATORS).join(', ')}`);
+    }
+
+    switch (operator) {
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (!(typeof operand === 'number' || typeof operand === 'string' || operand instanceof Date)) {
+          throw invalid(where, 'expects a number, string or date');
+        }
+        if (operand instanceof Date && isNaN(operand.getTime())) {
+          throw invalid(where, 'invalid date');
+        }
+        break;
+      case '$in':
+      case '$nin':
+        if (!Array.isArray(operand)) {
+          throw invalid(where, 'expects an array of values');
+        }
+        break;
+      case '$contains':
+        if (operand === undefined) {
+          throw invalid(where, 'expects a value');
+        }
+        break;
+      case '$exists':
+        if (typeof operand !== 'boolean') {
+          throw invalid(where, 'expects true or false');
+        }
+        break;
+    }
+  }
+}
+
+function invalid(path: string, reason: string): MemoryProtocolError {
+  return new MemoryProtocolError(`Invalid filter at ${path}: ${reason}`, 400, { path });
+}
+
+// Evaluation
+
+function evaluateExpression(event: MemoryEvent, expression: FilterExpression): boolean {
+  for (const [key, condition] of Object.entries(expression)) {
+    let matched: boolean;
+
+    if (key === '$and') {
+      matched = (condition as FilterExpression[]).every(item => evaluateExpression(event, item));
+    } else if (key === '$or') {
+      matched = (condition as FilterExpression[]).some(item => evaluateExpression(event, item));
+    } else if (key === '$not') {
+      matched = !evaluateExpression(event, condition as FilterExpression);
+    } else {
+      matched = evaluateCondition(resolveFilterPath(event, key), condition);
+    }
+
+    if (!matched) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function evaluateCondition(value: unknown, condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    return matchesAny(value, item => equals(item, condition));
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return matchesAny(value, item => equals(item, operand));
+      case '$ne':
+        return !matchesAny(value, item => equals(item, operand));
+      case '$gt':
+        return matchesAny(value, item => (compare(item, operand) ?? NaN) > 0);
+      case '$gte':
+        return matchesAny(value, item => (compare(item, operand) ?? NaN) >= 0);
+      case '$lt':
+        return matchesAny(value, item => (compare(item, operand) ?? NaN) < 0);
+      case '$lte':
+        return matchesAny(value, item => (compare(item, operand) ?? NaN) <= 0);
+      case '$in':
+        return matchesAny(value, item => (operand as unknown[]).some(candidate => equals(item, candidate)));
+      case '$nin':
+        return !matchesAny(value, item => (operand as unknown[]).some(candidate => equals(item, candidate)));
+      case '$contains':
+        if (Array.isArray(value)) {
+          return value.some(item => equals(item, operand));
+        }
+        return typeof value === 'string' && typeof operand === 'string' && value.includes(operand);
+      case '$exists':
+        return (value !== undefined) === operand;
+      default:
+        return false;
+    }
+  });
+}
+
+// An array matches when it matches as a whole or any of its elements matches
+function matchesAny(value: unknown, predicate: (item: unknown) => boolean): boolean {
+  return predicate(value) || (Array.isArray(value) && value.some(predicate));
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    const time = toTime(a);
+    return time !== undefined && time === toTime(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => equals(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => equals(a[key], b[key]));
+  }
+  return a === b;
+}
+
+// Dates compare by time (ISO strings and epoch numbers included); otherwise only like types compare
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date || b instanceof Date) {
+    const left = toTime(a);
+    const right = toTime(b);
+    return left !== undefined && right !== undefined ? left - right : undefined;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return undefined;
+}
+
+function walk(value: unknown, segments: string[]): unknown {
+  let current = value;
+
+  for (let i = 0; i < segments.length; i++) {
+    if (Array.isArray(current)) {
+      const segment = segments[i];
+      if (/^\d+$/.test(segment)) {
+        current = current[Number(segment)];
+        continue;
+      }
+
+      const values = current
+        .map(item => walk(item, segments.slice(i)))
+        .filter(item => item !== undefined)
+        .flat();
+      return values.length > 0 ? values : undefined;
+    }
+
+    if (current === null || typeof current !== 'object' || current instanceof Date) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segments[i]];
+  }
+
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
@@ -0,0 +1,315 @@
+import {
+  StorageTier,
+  MemoryEvent,
+  MemoryQuery,
+  MemorySearchResult,
+  RelationshipType,
+  GraphDirection,
+  GraphEdge,
+  GraphPath,
+  GraphTraversalOptions,
+  RelatedMemory,
+  StorageError
+} from '../core/types.js';
+import { InMemoryBackend } from './inMemoryBackend.js';
+import { evaluateFilter } from './filterExpression.js';
+
+export interface GraphNeighbor {
+  memory: MemoryEvent;
+  edge: GraphEdge;
+  direction: 'outgoing' | 'incoming';
+}
+
+type Adjacency = Map<string, Map<string, GraphEdge>>;
+
+/**
+ * Graph storage backend for relationship modeling
+ * Indexes MemoryContent.relationships as edges in both directions and
+ * supports neighbor lookups, k-hop expansion and shortest paths.
+ * Edges may point at memories this backend does not hold; traversals skip them.
+ */
+export class GraphStoreBackend extends InMemoryBackend {
+  public readonly name: string = 'graph-store';
+  public readonly type: StorageTier = StorageTier.GRAPH_STORE;
+
+  private outgoing: Adjacency = new Map();
+  private incoming: Adjacency = new Map();
+
+  async store(event: MemoryEvent): Promise<void> {
+    await super.store(event);
+    this.indexEdges(this.events.get(event.id)!);
+  }
+
+  async retrieve(query: MemoryQuery): Promise<MemorySearchResult> {
+    const result = await super.retrieve(query);
+
+    if (query.expandRelated) {
+      const related = this.expandFrom(result.memories.map(memory => memory.id), query.expandRelated)
+        .filter(entry => !query.scope || evaluateFilter(entry.memory, query.scope));
+      if (related.length > 0) {
+        result.related = related;
+      }
+    }
+
+    return result;
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    await super.update(id, updates);
+
+    if (updates.content) {
+      this.indexEdges(this.events.get(id)!);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+
+    // Cascade: drop the memory's own edges and every edge pointing at it
+    this.unindexOutgoing(id);
+    for (const edge of Array.from(this.incoming.get(id)?.values() || [])) {
+      this.removeEdge(edge);
+
+      const source = this.events.get(edge.sourceId);
+      if (source) {
+        source.content = {
+          ...source.content,
+          relationships: (source.content.relationships || []).filter(relationship =>
+            relationship.targetId !== id || relationship.type !== edge.type
+          )
+        };
+      }
+    }
+    this.incoming.delete(id);
+  }
+
+  async expand(memoryIds: string[], options: GraphTraversalOptions = {}): Promise<RelatedMemory[]> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return this.expandFrom(memoryIds, options);
+  }
+
+  /**
+   * Memories directly connected to a memory
+   */
+  async neighbors(memoryId: string, options: GraphTraversalOptions = {}): Promise<GraphNeighbor[]> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return this.edgesOf(memoryId, options)
+      .filter(({ neighborId }) => this.events.has(neighborId))
+      .map(({ edge, neighborId, direction }) => ({ memory: this.events.get(neighborId)!, edge, direction }));
+  }
+
+  /**
+   * Path between two memories with the fewest hops, or, when weighted,
+   * the path with the highest product of relationship strengths
+   */
+  async shortestPath(
+    fromId: string,
+    toId: string,
+    options: GraphTraversalOptions & { weighted?: boolean } = {}
+  ): Promise<GraphPath | null> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    if (!this.events.has(fromId) || !this.events.has(toId)) {
+      return null;
+    }
+    if (fromId === toId) {
+      return { memoryIds: [fromId], edges: [], strength: 1 };
+    }
+
+    const maxHops = options.hops ?? Infinity;
+    // Edge cost: one hop each, or -ln(strength) so the cheapest path has the strongest product
+    const cost = (edge: GraphEdge) => options.weighted ? -Math.log(edge.strength) : 1;
+
+    const best = new Map<string, { cost: number; hops: number; previous?: string; edge?: GraphEdge }>([
+      [fromId, { cost: 0, hops: 0 }]
+    ]);
+    const visited = new Set<string>();
+
+    // Dijkstra; graphs held in memory are small enough for a linear scan of the frontier
+    while (true) {
+      let current: string | undefined;
+      for (const [id, entry] of best) {
+        if (!visited.has(id) && (current === undefined || entry.cost < best.get(current)!.cost)) {
+          current = id;
+        }
+      }
+      if (current === undefined || current === toId) {
+        break;
+      }
+
+      visited.add(current);
+      const { cost: currentCost, hops } = best.get(current)!;
+      if (hops >= maxHops) {
+        continue;
+      }
+
+      for (const { edge, neighborId } of this.edgesOf(current, options)) {
+        if (!this.events.has(neighborId) || visited.has(neighborId) || edge.strength <= 0) {
+          continue;
+        }
+
+        const candidate = currentCost + cost(edge);
+        const known = best.get(neighborId);
+        if (!known || candidate < known.cost) {
+          best.set(neighborId, { cost: candidate, hops: hops + 1, previous: current, edge });
+        }
+      }
+    }
+
+    if (!best.has(toId)) {
+      return null;
+    }
+
+    const memoryIds: string[] = [toId];
+    const edges: GraphEdge[] = [];
+    for (let entry = best.get(toId)!; entry.previous !== undefined; entry = best.get(entry.previous)!) {
+      memoryIds.unshift(entry.previous);
+      edges.unshift(entry.edge!);
+    }
+
+    return {
+      memoryIds,
+      edges,
+      strength: edges.reduce((product, edge) => product * edge.strength, 1)
+    };
+  }
+
+  /**
+   * Every indexed edge of a memory, including edges to memories not held here
+   */
+  getEdges(memoryId: string, direction: GraphDirection = 'both'): GraphEdge[] {
+    return this.edgesOf(memoryId, { direction }).map(({ edge }) => edge);
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  clear(): void {
+    super.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  // Private helper methods
+
+  private expandFrom(memoryIds: string[], options: GraphTraversalOptions): RelatedMemory[] {
+    const seeds = new Set(memoryIds);
+    const hops = Math.max(options.hops ?? 1, 1);
+    const reached = new Map<string, { score: number; hops: number; via: GraphEdge }>();
+    let frontier = new Map<string, number>(memoryIds.map(id => [id, 1]));
+
+    // Relax one hop at a time, keeping the strongest path to each memory
+    for (let hop = 1; hop <= hops && frontier.size > 0; hop++) {
+      const next = new Map<string, number>();
+
+      for (const [id, score] of frontier) {
+        for (const { edge, neighborId } of this.edgesOf(id, options)) {
+          if (seeds.has(neighborId) || !this.events.has(neighborId)) {
+            continue;
+          }
+
+          const candidate = score * edge.strength;
+          const known = reached.get(neighborId);
+          if (!known || candidate > known.score) {
+            reached.set(neighborId, { score: candidate, hops: hop, via: edge });
+            next.set(neighborId, candidate);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    const related = Array.from(reached, ([id, entry]) => ({ memory: this.events.get(id)!, ...entry }))
+      .sort((a, b) => (b.score - a.score) || (a.hops - b.hops));
+
+    return options.limit !== undefined ? related.slice(0, options.limit) : related;
+  }
+
+  private edgesOf(
+    memoryId: string,
+    options: GraphTraversalOptions
+  ): { edge: GraphEdge; neighborId: string; direction: 'outgoing' | 'incoming' }[] {
+    const direction = options.direction || 'both';
+    const minStrength = options.minStrength ?? 0;
+    const accepts = (edge: GraphEdge) => edge.strength >= minStrength
+      && (!options.types || options.types.length === 0 || options.types.includes(edge.type));
+
+    const edges: { edge: GraphEdge; neighborId: string; direction: 'outgoing' | 'incoming' }[] = [];
+
+    if (direction !== 'incoming') {
+      for (const edge of this.outgoing.get(memoryId)?.values() || []) {
+        if (accepts(edge)) {
+          edges.push({ edge, neighborId: edge.targetId, direction: 'outgoing' });
+        }
+      }
+    }
+    if (direction !== 'outgoing') {
+      for (const edge of this.incoming.get(memoryId)?.values() || []) {
+        if (accepts(edge)) {
+          edges.push({ edge, neighborId: edge.sourceId, direction: 'incoming' });
+        }
+      }
+    }
+
+    return edges;
+  }
+
+  private indexEdges(event: MemoryEvent): void {
+    this.unindexOutgoing(event.id);
+
+    for (const relationship of event.content.relationships || []) {
+      const edge: GraphEdge = {
+        sourceId: event.id,
+        targetId: relationship.targetId,
+        type: relationship.type,
+        strength: relationship.strength,
+        ...(relationship.metadata ? { metadata: relationship.metadata } : {})
+      };
+
+      this.adjacent(this.outgoing, edge.sourceId).set(this.edgeKey(edge.type, edge.targetId), edge);
+      this.adjacent(this.incoming, edge.targetId).set(this.edgeKey(edge.type, edge.sourceId), edge);
+    }
+  }
+
+  private unindexOutgoing(memoryId: string): void {
+    for (const edge of Array.from(this.outgoing.get(memoryId)?.values() || [])) {
+      this.removeEdge(edge);
+    }
+    this.outgoing.delete(memoryId);
+  }
+
+  private removeEdge(edge: GraphEdge): void {
+    this.outgoing.get(edge.sourceId)?.delete(this.edgeKey(edge.type, edge.targetId));
+    this.incoming.get(edge.targetId)?.delete(this.edgeKey(edge.type, edge.sourceId));
+
+    if (this.outgoing.get(edge.sourceId)?.size === 0) {
+      this.outgoing.delete(edge.sourceId);
+    }
+    if (this.incoming.get(edge.targetId)?.size === 0) {
+      this.incoming.delete(edge.targetId);
+    }
+  }
+
+  private adjacent(adjacency: Adjacency, memoryId: string): Map<string, GraphEdge> {
+    if (!adjacency.has(memoryId)) {
+      adjacency.set(memoryId, new Map());
+    }
+    return adjacency.get(memoryId)!;
+  }
+
+  private edgeKey(type: RelationshipType, memoryId: string): string {
+    return `${type}:${memoryId}`;
+  }
+}
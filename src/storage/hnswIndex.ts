@@ -0,0 +1,314 @@
+import { StorageError } from '../core/types.js';
+
+export type DistanceMetric = 'cosine' | 'dot' | 'l2';
+
+export interface HnswOptions {
+  metric?: DistanceMetric;
+  dimensions?: number;
+  m?: number;              // Max neighbors per node on upper layers
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number;       // Candidate list size while searching
+}
+
+export interface VectorMatch {
+  key: string;
+  similarity: number;
+}
+
+interface HnswNode {
+  key: string;
+  vector: number[];
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest neighbor search
+ * Pure TypeScript implementation following Malkov & Yashunin (2016)
+ */
+export class HnswIndex {
+  private nodes: HnswNode[] = [];
+  private keys: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+
+  private readonly metric: DistanceMetric;
+  private readonly m: number;
+  private readonly maxM0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+  private dimensions?: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.metric = options.metric || 'cosine';
+    this.dimensions = options.dimensions;
+    this.m = options.m || 16;
+    this.maxM0 = this.m * 2;
+    this.efConstruction = options.efConstruction || 200;
+    this.efSearch = options.efSearch || 50;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  has(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  add(key: string, vector: number[]): void {
+    if (this.keys.has(key)) {
+      this.remove(key);
+    }
+
+    this.validateVector(vector);
+
+    const id = this.nodes.length;
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      key,
+      vector: this.prepare(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    };
+
+    this.nodes.push(node);
+    this.keys.set(key, id);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+
+    // Greedy descent through layers above the new node's level
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(node.vector, [entry], 1, layer)[0].id;
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, [entry], this.efConstruction, layer);
+      const neighbors = candidates.slice(0, this.m).map(candidate => candidate.id);
+      node.neighbors[layer] = neighbors;
+
+      for (const neighborId of neighbors) {
+        const neighbor = this.nodes[neighborId];
+        neighbor.neighbors[layer].push(id);
+
+        const maxConnections = layer === 0 ? this.maxM0 : this.m;
+        if (neighbor.neighbors[layer].length > maxConnections) {
+          neighbor.neighbors[layer] = this.closest(neighbor.vector, neighbor.neighbors[layer], maxConnections);
+        }
+      }
+
+      entry = candidates[0].id;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(key: string): boolean {
+    const id = this.keys.get(key);
+    if (id === undefined) {
+      return false;
+    }
+
+    // Tombstone the node so the graph stays connected; rebuild once tombstones dominate
+    this.nodes[id].deleted = true;
+    this.keys.delete(key);
+    this.deletedCount++;
+
+    if (this.deletedCount > this.keys.size && this.deletedCount > 64) {
+      this.rebuild();
+    }
+
+    return true;
+  }
+
+  search(vector: number[], k: number, filter?: (key: string) => boolean): VectorMatch[] {
+    if (this.entryPoint < 0 || k <= 0) {
+      return [];
+    }
+
+    this.validateVector(vector);
+    const query = this.prepare(vector);
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].id;
+    }
+
+    const accept = (node: HnswNode) => !node.deleted && (!filter || filter(node.key));
+    const results = this.searchLayer(query, [entry], Math.max(this.efSearch, k), 0, accept);
+
+    return results.slice(0, k).map(result => ({
+      key: this.nodes[result.id].key,
+      similarity: this.toSimilarity(result.distance)
+    }));
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.keys.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+  }
+
+  // Private helper methods
+
+  private searchLayer(
+    query: number[],
+    entries: number[],
+    ef: number,
+    layer: number,
+    accept?: (node: HnswNode) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = entries.map(id => ({ id, distance: this.distance(query, this.nodes[id].vector) }));
+    candidates.sort((a, b) => a.distance - b.distance);
+
+    const results: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (!accept || accept(this.nodes[candidate.id])) {
+        this.insertSorted(results, candidate, ef);
+      }
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const worst = results[results.length - 1];
+
+      if (results.length >= ef && worst && current.distance > worst.distance) {
+        break;
+      }
+
+      const neighbors = this.nodes[current.id].neighbors[layer] || [];
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const neighbor = this.nodes[neighborId];
+        const distance = this.distance(query, neighbor.vector);
+        const furthest = results[results.length - 1];
+
+        if (results.length < ef || !furthest || distance < furthest.distance) {
+          this.insertSorted(candidates, { id: neighborId, distance });
+          if (!accept || accept(neighbor)) {
+            this.insertSorted(results, { id: neighborId, distance }, ef);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private insertSorted(list: Candidate[], candidate: Candidate, maxLength?: number): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (list[mid].distance < candidate.distance) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    list.splice(low, 0, candidate);
+    if (maxLength !== undefined && list.length > maxLength) {
+      list.pop();
+    }
+  }
+
+  private closest(vector: number[], ids: number[], count: number): number[] {
+    return ids
+      .map(id => ({ id, distance: this.distance(vector, this.nodes[id].vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(candidate => candidate.id);
+  }
+
+  private rebuild(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.clear();
+
+    // Stored vectors are already prepared; preparing them again is a no-op
+    for (const node of live) {
+      this.add(node.key, node.vector);
+    }
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+  }
+
+  private validateVector(vector: number[]): void {
+    if (!Array.isArray(vector) || vector.length === 0) {
+      throw new StorageError('Vector must be a non-empty array of numbers');
+    }
+
+    if (this.dimensions === undefined) {
+      this.dimensions = vector.length;
+    } else if (vector.length !== this.dimensions) {
+      throw new StorageError(
+        `Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`,
+        { expected: this.dimensions, actual: vector.length }
+      );
+    }
+  }
+
+  private prepare(vector: number[]): number[] {
+    if (this.metric !== 'cosine') {
+      return vector.slice();
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+  }
+
+  private distance(a: number[], b: number[]): number {
+    if (this.metric === 'l2') {
+      let sum = 0;
+      for (let i = 0; i < a.length; i++) {
+        const diff = a[i] - b[i];
+        sum += diff * diff;
+      }
+      return Math.sqrt(sum);
+    }
+
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+
+    // Cosine vectors are pre-normalized, so the dot product is the cosine similarity
+    return this.metric === 'cosine' ? 1 - dot : -dot;
+  }
+
+  private toSimilarity(distance: number): number {
+    switch (this.metric) {
+      case 'cosine': return 1 - distance;
+      case 'dot': return -distance;
+      case 'l2': return 1 / (1 + distance);
+    }
+  }
+}
@@ -1,24 +1,51 @@
+import { createHash } from 'crypto';
 import {
   StorageBackend,
   StorageTier,
   MemoryEvent,
   MemoryQuery,
   MemorySearchResult,
+  ChunkMatch,
+  MemoryChunk,
   MemoryType,
   StorageError,
   DEFAULT_SEARCH_LIMIT
 } from '../core/types.js';
+import { matchesQuery, compareResults } from './queryMatcher.js';
+import { TextIndex, Bm25Options, tokenize } from './textIndex.js';
+import { cosineSimilarity } from '../processing/deduplicator.js';
+
+export interface InMemoryBackendOptions {
+  bm25?: Bm25Options;
+  hybrid?: boolean; // Fuse lexical and embedding rankings when the query has an embedding, defaults to true
+  rrfK?: number; // Reciprocal rank fusion constant, defaults to 60
+}
 
 /**
  * In-memory storage backend for fast access to working memory
  * Implements the StorageBackend interface for main context storage
+ *
+ * Text queries are ranked with BM25 over an inverted index of text, keywords
+ * and tags. When the query carries an embedding, the lexical ranking is fused
+ * with embedding similarity by reciprocal rank fusion. Scores are scaled so the
+ * best result scores 1 and are returned in MemoryEvent.score.
  */
 export class InMemoryBackend implements StorageBackend {
-  public readonly name = 'in-memory';
-  public readonly type = StorageTier.MAIN_CONTEXT;
+  public readonly name: string = 'in-memory';
+  public readonly type: StorageTier = StorageTier.MAIN_CONTEXT;
   
-  private events: Map<string, MemoryEvent> = new Map();
-  private initialized = false;
+  protected events: Map<string, MemoryEvent> = new Map();
+  protected initialized = false;
+
+  private textIndex: TextIndex;
+  private hybrid: boolean;
+  private rrfK: number;
+
+  constructor(options: InMemoryBackendOptions = {}) {
+    this.textIndex = new TextIndex(options.bm25);
+    this.hybrid = options.hybrid ?? true;
+    this.rrfK = options.rrfK ?? 60;
+  }
 
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -34,7 +61,7 @@ export class InMemoryBackend implements StorageBackend {
     }
 
     // Store the event
-    this.events.set(event.id, { ...event });
+    this.putEvent({ ...event });
     
     // Update access metadata
     const stored = this.events.get(event.id)!;
@@ -83,12 +110,19 @@ export class InMemoryBackend implements StorageBackend {
 
     const searchTime = Date.now() - startTime;
 
-    return {
+    const result: MemorySearchResult = {
       memories: paginatedResults,
       totalCount: results.length,
       query,
       searchTime
     };
+
+    const chunkMatches = this.matchChunks(paginatedResults, query);
+    if (chunkMatches.length > 0) {
+      result.chunkMatches = chunkMatches;
+    }
+
+    return result;
   }
 
   async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
@@ -101,11 +135,11 @@ export class InMemoryBackend implements StorageBackend {
       throw new StorageError(`Event not found: ${id}`);
     }
 
-    // Apply updates
-    const updatedEvent = { ...event, ...updates };
+    // Apply updates; the id is the key, never part of the update
+    const updatedEvent = { ...event, ...updates, id };
     updatedEvent.metadata.updated = new Date();
     
-    this.events.set(id, updatedEvent);
+    this.putEvent(updatedEvent);
   }
 
   async delete(id: string): Promise<void> {
@@ -113,7 +147,7 @@ export class InMemoryBackend implements StorageBackend {
       throw new StorageError('Backend not initialized');
     }
 
-    const deleted = this.events.delete(id);
+    const deleted = this.dropEvent(id);
     if (!deleted) {
       throw new StorageError(`Event not found: ${id}`);
     }
@@ -129,16 +163,16 @@ export class InMemoryBackend implements StorageBackend {
     const seen = new Set<string>();
 
     for (const event of events) {
-      // Simple deduplication based on content similarity
-      const contentHash = this.hashContent(event.content.text);
+      // Simple deduplication based on content similarity, never across users
+      const contentHash = this.hashContent(`${event.context.userId ?? ''}\u0000${event.content.text}`);
       
       if (!seen.has(contentHash)) {
         seen.add(contentHash);
         consolidated.push(event);
       } else {
         // Merge with existing event (increase importance)
-        const existing = consolidated.find(e => 
-          this.hashContent(e.content.text) === contentHash
+        const existing = consolidated.find(e =>
+          this.hashContent(`${e.context.userId ?? ''}\u0000${e.content.text}`) === contentHash
         );
         if (existing) {
           existing.metadata.importance = Math.min(
@@ -153,8 +187,25 @@ export class InMemoryBackend implements StorageBackend {
     return consolidated;
   }
 
+  async get(id: string): Promise<MemoryEvent | undefined> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return this.events.get(id);
+  }
+
+  async list(offset = 0, limit = Infinity): Promise<MemoryEvent[]> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return Array.from(this.events.values()).slice(offset, offset + limit);
+  }
+
   async close(): Promise<void> {
     this.events.clear();
+    this.textIndex.clear();
     this.initialized = false;
   }
 
@@ -171,125 +222,123 @@ export class InMemoryBackend implements StorageBackend {
   // Clear all events
   clear(): void {
     this.events.clear();
+    this.textIndex.clear();
   }
 
-  // Private helper methods
-
-  private searchEvents(query: MemoryQuery): MemoryEvent[] {
-    const results: MemoryEvent[] = [];
-    const queryLower = query.query.toLowerCase();
+  /**
+   * Add or replace an event and keep the text index in sync
+   */
+  protected putEvent(event: MemoryEvent): void {
+    this.events.set(event.id, event);
+    this.textIndex.add(event.id, event.content);
+  }
 
-    for (const event of this.events.values()) {
-      let score = 0;
+  protected dropEvent(id: string): boolean {
+    this.textIndex.remove(id);
+    return this.events.delete(id);
+  }
 
-      // Text matching
-      if (event.content.text.toLowerCase().includes(queryLower)) {
-        score += 0.8;
-      }
+  /**
+   * Events a search has to consider; subclasses with indexes can narrow this down
+   */
+  protected candidates(_query: MemoryQuery): Iterable<MemoryEvent> {
+    return this.events.values();
+  }
 
-      // Keyword matching
-      if (event.content.keywords) {
-        for (const keyword of event.content.keywords) {
-          if (keyword.toLowerCase().includes(queryLower)) {
-            score += 0.6;
-          }
-        }
-      }
+  // Private helper methods
 
-      // Tag matching
-      if (event.content.tags) {
-        for (const tag of event.content.tags) {
-          if (tag.toLowerCase().includes(queryLower)) {
-            score += 0.7;
-          }
-        }
-      }
+  private searchEvents(query: MemoryQuery): MemoryEvent[] {
+    const candidates = Array.from(this.candidates(query));
+    const terms = tokenize(query.query);
 
-      // Apply threshold
-      if (score >= (query.threshold || 0.5)) {
-        results.push({ ...event, _score: score } as any);
-      }
+    // An empty query lists every candidate
+    if (terms.length === 0 && !query.query.trim()) {
+      return candidates;
     }
 
-    return results;
-  }
-
-  private applyFilters(events: MemoryEvent[], query: MemoryQuery): MemoryEvent[] {
-    let filtered = events;
+    const lexical = this.textIndex.search(terms);
+    const lexicalRanking = candidates
+      .filter(event => lexical.has(event.id))
+      .sort((a, b) => lexical.get(b.id)! - lexical.get(a.id)!);
 
-    // Filter by memory types
-    if (query.memoryTypes && query.memoryTypes.length > 0) {
-      filtered = filtered.filter(event => 
-        query.memoryTypes!.includes(event.memoryType)
-      );
-    }
+    // The similarity threshold applies to embeddings only; BM25 scores have no fixed scale
+    const semanticRanking = this.hybrid && query.embedding
+      ? this.rankBySimilarity(candidates, query.embedding, query.threshold ?? 0)
+      : [];
 
-    // Filter by storage tiers
-    if (query.storageTiers && query.storageTiers.length > 0) {
-      filtered = filtered.filter(event => 
-        query.storageTiers!.includes(event.metadata.storageTier)
-      );
+    if (semanticRanking.length === 0) {
+      const best = lexicalRanking.length > 0 ? lexical.get(lexicalRanking[0].id)! : 0;
+      return lexicalRanking.map(event => ({ ...event, score: lexical.get(event.id)! / best }));
     }
 
-    // Filter by time range
-    if (query.timeRange) {
-      filtered = filtered.filter(event => {
-        const eventTime = event.timestamp;
-        const { start, end } = query.timeRange!;
-        
-        if (start && eventTime < start) return false;
-        if (end && eventTime > end) return false;
-        
-        return true;
+    // Reciprocal rank fusion of the lexical and embedding rankings
+    const fused = new Map<string, number>();
+    for (const ranking of [lexicalRanking, semanticRanking]) {
+      ranking.forEach((event, index) => {
+        fused.set(event.id, (fused.get(event.id) || 0) + 1 / (this.rrfK + index + 1));
       });
     }
 
-    // Apply custom filters
-    if (query.filters) {
-      filtered = filtered.filter(event => {
-        for (const [key, value] of Object.entries(query.filters!)) {
-          if (event.metadata[key] !== value) {
-            return false;
-          }
+    const best = Math.max(...fused.values());
+    return candidates
+      .filter(event => fused.has(event.id))
+      .map(event => ({ ...event, score: fused.get(event.id)! / best }));
+  }
+
+  private rankBySimilarity(events: MemoryEvent[], embedding: number[], threshold: number): MemoryEvent[] {
+    const similarities = new Map<string, number>();
+
+    for (const event of events) {
+      const vector = event.content.embedding;
+      if (vector && vector.length === embedding.length) {
+        const similarity = cosineSimilarity(vector, embedding);
+        if (similarity >= threshold) {
+          similarities.set(event.id, similarity);
         }
-        return true;
-      });
+      }
     }
 
-    return filtered;
+    return events
+      .filter(event => similarities.has(event.id))
+      .sort((a, b) => similarities.get(b.id)! - similarities.get(a.id)!);
+  }
+
+  private applyFilters(events: MemoryEvent[], query: MemoryQuery): MemoryEvent[] {
+    return events.filter(event => matchesQuery(event, query));
   }
 
   private sortResults(events: MemoryEvent[], query: MemoryQuery): MemoryEvent[] {
-    return events.sort((a, b) => {
-      // Sort by score first (if available)
-      const scoreA = (a as any)._score || 0;
-      const scoreB = (b as any)._score || 0;
-      
-      if (scoreA !== scoreB) {
-        return scoreB - scoreA;
+    return events.sort(compareResults);
+  }
+
+  private matchChunks(events: MemoryEvent[], query: MemoryQuery): ChunkMatch[] {
+    const matches: ChunkMatch[] = [];
+    const terms = new Set(tokenize(query.query));
+    if (terms.size === 0) {
+      return matches;
+    }
+
+    // The chunk sharing the most query terms
+    for (const event of events) {
+      let best: { chunk: MemoryChunk; overlap: number } | null = null;
+
+      for (const chunk of event.content.chunks || []) {
+        const overlap = new Set(tokenize(chunk.text).filter(term => terms.has(term))).size;
+        if (overlap > 0 && (!best || overlap > best.overlap)) {
+          best = { chunk, overlap };
+        }
       }
 
-      // Then by importance
-      const importanceA = a.metadata.importance;
-      const importanceB = b.metadata.importance;
-      
-      if (importanceA !== importanceB) {
-        return importanceB - importanceA;
+      if (best) {
+        matches.push({ memoryId: event.id, chunk: best.chunk, score: event.score || 0 });
       }
+    }
 
-      // Finally by recency
-      return b.timestamp.getTime() - a.timestamp.getTime();
-    });
+    return matches;
   }
 
   private hashContent(content: string): string {
-    // Simple hash function for content deduplication
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString();
+    // Collision-resistant hash for exact content deduplication
+    return createHash('sha256').update(content).digest('hex');
   }
 }
@@ -0,0 +1,66 @@
+import { MemoryEvent, MemoryQuery } from '../core/types.js';
+import { evaluateFilter } from './filterExpression.js';
+
+/**
+ * Check whether an event satisfies the structural constraints of a query
+ * (memory types, storage tiers, time range, filter expression and scope).
+ * Shared by storage backends so every backend filters the same way.
+ */
+export function matchesQuery(event: MemoryEvent, query: MemoryQuery): boolean {
+  // Filter by memory types
+  if (query.memoryTypes && query.memoryTypes.length > 0) {
+    if (!query.memoryTypes.includes(event.memoryType)) {
+      return false;
+    }
+  }
+
+  // Filter by storage tiers
+  if (query.storageTiers && query.storageTiers.length > 0) {
+    if (!query.storageTiers.includes(event.metadata.storageTier)) {
+      return false;
+    }
+  }
+
+  // Filter by time range
+  if (query.timeRange) {
+    const eventTime = event.timestamp;
+    const { start, end } = query.timeRange;
+
+    if (start && eventTime < start) return false;
+    if (end && eventTime > end) return false;
+  }
+
+  // Apply filter expression
+  if (query.filters && !evaluateFilter(event, query.filters)) {
+    return false;
+  }
+
+  // Restrict to the namespaces the caller can see
+  if (query.scope && !evaluateFilter(event, query.scope)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Ranking order of search results: score, importance, recency, then id.
+ * The protocol merges and pages results in the same order, so every backend
+ * must rank its results with it for cursors to resume at the right place.
+ */
+export function compareResults(a: MemoryEvent, b: MemoryEvent): number {
+  const scoreA = a.score || 0;
+  const scoreB = b.score || 0;
+  if (scoreA !== scoreB) {
+    return scoreB - scoreA;
+  }
+  if (a.metadata.importance !== b.metadata.importance) {
+    return b.metadata.importance - a.metadata.importance;
+  }
+  const timeA = new Date(a.timestamp).getTime();
+  const timeB = new Date(b.timestamp).getTime();
+  if (timeA !== timeB) {
+    return timeB - timeA;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
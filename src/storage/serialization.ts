@@ -0,0 +1,24 @@
+import { MemoryEvent } from '../core/types.js';
+
+/**
+ * Restore the Date fields of a MemoryEvent (or partial update) parsed from JSON
+ */
+export function reviveEvent<T extends Partial<MemoryEvent>>(raw: T): T {
+  const event: any = raw;
+
+  if (event.timestamp !== undefined) {
+    event.timestamp = new Date(event.timestamp);
+  }
+  if (event.context?.timestamp !== undefined) {
+    event.context.timestamp = new Date(event.context.timestamp);
+  }
+  if (event.metadata) {
+    for (const field of ['lastAccessed', 'created', 'updated']) {
+      if (event.metadata[field] !== undefined) {
+        event.metadata[field] = new Date(event.metadata[field]);
+      }
+    }
+  }
+
+  return raw;
+}
@@ -0,0 +1,819 @@
+import Database from 'better-sqlite3';
+import {
+  StorageBackend,
+  StorageTier,
+  MemoryEvent,
+  MemoryQuery,
+  MemorySearchResult,
+  MemoryMetadata,
+  ChunkMatch,
+  FilterExpression,
+  RelationshipType,
+  StorageError,
+  DEFAULT_SEARCH_LIMIT
+} from '../core/types.js';
+import { matchesQuery } from './queryMatcher.js';
+import { validateFilter, filterPath, isOperatorObject, toTime } from './filterExpression.js';
+import { reviveEvent } from './serialization.js';
+
+export interface SqliteBackendOptions {
+  filename: string; // Database file, or ':memory:'
+}
+
+interface Migration {
+  version: number;
+  sql: string;
+}
+
+interface EventRow {
+  id: string;
+  type: string;
+  memory_type: string;
+  text: string;
+  embedding: string | null;
+  embedding_model: string | null;
+  context: string;
+  timestamp: number;
+  ttl: number | null;
+  source: string;
+  confidence: number;
+  importance: number;
+  access_count: number;
+  last_accessed: number;
+  created: number;
+  updated: number;
+  storage_tier: string;
+  extra: string;
+  rank?: number;
+}
+
+interface SqlFragment {
+  sql: string;
+  params: unknown[];
+}
+
+interface WhereClause {
+  conditions: string[];
+  params: unknown[];
+  residual: boolean; // Some filters could not be expressed in SQL and are applied afterwards
+}
+
+/**
+ * Schema migrations, applied in order and tracked in PRAGMA user_version
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    sql: `
+      CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        memory_type TEXT NOT NULL,
+        text TEXT NOT NULL,
+        embedding TEXT,
+        embedding_model TEXT,
+        context TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        ttl INTEGER
+      );
+      CREATE INDEX events_memory_type ON events (memory_type);
+      CREATE INDEX events_timestamp ON events (timestamp);
+
+      CREATE TABLE metadata (
+        event_id TEXT PRIMARY KEY REFERENCES events (id) ON DELETE CASCADE,
+        source TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        importance REAL NOT NULL,
+        access_count INTEGER NOT NULL,
+        last_accessed INTEGER NOT NULL,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL,
+        storage_tier TEXT NOT NULL,
+        extra TEXT NOT NULL
+      );
+      CREATE INDEX metadata_storage_tier ON metadata (storage_tier);
+
+      CREATE TABLE keywords (
+        event_id TEXT NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        keyword TEXT NOT NULL,
+        PRIMARY KEY (event_id, position)
+      );
+
+      CREATE TABLE tags (
+        event_id TEXT NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (event_id, position)
+      );
+      CREATE INDEX tags_tag ON tags (tag);
+
+      CREATE TABLE relationships (
+        event_id TEXT NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        strength REAL NOT NULL,
+        metadata TEXT,
+        PRIMARY KEY (event_id, position)
+      );
+      CREATE INDEX relationships_target ON relationships (target_id);
+
+      CREATE TABLE chunks (
+        event_id TEXT NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        offset INTEGER NOT NULL,
+        overlap INTEGER,
+        embedding TEXT,
+        PRIMARY KEY (event_id, position)
+      );
+
+      CREATE VIRTUAL TABLE events_fts USING fts5(event_id UNINDEXED, text, keywords, tags);
+      CREATE VIRTUAL TABLE chunks_fts USING fts5(event_id UNINDEXED, chunk_id UNINDEXED, text);
+    `
+  }
+];
+
+// Metadata fields stored in their own columns; everything else lives in metadata.extra
+const METADATA_COLUMNS: Record<string, { column: string; kind: 'string' | 'number' }> = {
+  source: { column: 'm.source', kind: 'string' },
+  confidence: { column: 'm.confidence', kind: 'number' },
+  importance: { column: 'm.importance', kind: 'number' },
+  accessCount: { column: 'm.access_count', kind: 'number' },
+  storageTier: { column: 'm.storage_tier', kind: 'string' }
+};
+const DATE_FIELDS: Record<string, string> = {
+  lastAccessed: 'm.last_accessed',
+  created: 'm.created',
+  updated: 'm.updated'
+};
+const EVENT_FILTER_COLUMNS: Record<string, { column: string; kind: 'string' | 'number' | 'date' }> = {
+  id: { column: 'e.id', kind: 'string' },
+  type: { column: 'e.type', kind: 'string' },
+  memoryType: { column: 'e.memory_type', kind: 'string' },
+  timestamp: { column: 'e.timestamp', kind: 'date' }
+};
+const COMPARISONS: Record<string, string> = {
+  $eq: '=',
+  $ne: '<>',
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<='
+};
+
+// Column weights for BM25, mirroring the text/keyword/tag weights of InMemoryBackend
+const FTS_RANK = 'bm25(events_fts, 0.0, 0.8, 0.6, 0.7)';
+
+const EVENT_COLUMNS = `
+  e.id, e.type, e.memory_type, e.text, e.embedding, e.embedding_model, e.context, e.timestamp, e.ttl,
+  m.source, m.confidence, m.importance, m.access_count, m.last_accessed, m.created, m.updated,
+  m.storage_tier, m.extra`;
+
+/**
+ * SQLite storage backend for single-file persistent storage
+ * Keeps events, metadata, keywords, tags, relationships and chunks in
+ * normalized tables and ranks text queries with FTS5 BM25
+ */
+export class SqliteBackend implements StorageBackend {
+  public readonly name = 'sqlite';
+  public readonly type = StorageTier.EXTERNAL_CONTEXT;
+
+  private filename: string;
+  private db: Database.Database | null = null;
+
+  constructor(options: SqliteBackendOptions) {
+    if (!options?.filename) {
+      throw new StorageError('SQLite backend requires a filename');
+    }
+
+    this.filename = options.filename;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.db) {
+      throw new StorageError('Backend already initialized');
+    }
+
+    let db: Database.Database;
+    try {
+      db = new Database(this.filename);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      this.migrate(db);
+    } catch (error: any) {
+      throw new StorageError(`Failed to open SQLite database: ${error.message}`, { filename: this.filename });
+    }
+
+    this.db = db;
+  }
+
+  async store(event: MemoryEvent): Promise<void> {
+    const db = this.connection();
+    db.transaction(() => this.writeEvent(db, event))();
+  }
+
+  async retrieve(query: MemoryQuery): Promise<MemorySearchResult> {
+    const db = this.connection();
+    const startTime = Date.now();
+    const offset = query.offset || 0;
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+
+    const where = this.buildWhere(query);
+    const terms = this.ftsQuery(query.query);
+    const textSearch = !query.id && terms !== null;
+
+    if (textSearch) {
+      where.conditions.push('events_fts MATCH ?');
+      where.params.push(terms);
+    }
+
+    const from = textSearch
+      ? 'events_fts JOIN events e ON e.id = events_fts.event_id JOIN metadata m ON m.event_id = e.id'
+      : 'events e JOIN metadata m ON m.event_id = e.id';
+    const whereSql = where.conditions.length > 0 ? `WHERE ${where.conditions.join(' AND ')}` : '';
+    const orderSql = textSearch
+      ? 'ORDER BY rank ASC, m.importance DESC, e.timestamp DESC, e.id ASC'
+      : 'ORDER BY m.importance DESC, e.timestamp DESC, e.id ASC';
+    const select = `SELECT ${EVENT_COLUMNS}${textSearch ? `, ${FTS_RANK} AS rank` : ''} FROM ${from} ${whereSql} ${orderSql}`;
+
+    let rows: EventRow[];
+    let events: MemoryEvent[];
+    let totalCount: number;
+    let bestRank: number;
+
+    if (where.residual) {
+      // Some filters are evaluated in memory, so pagination has to follow them
+      const allRows = db.prepare(select).all(...where.params) as EventRow[];
+      const matching = this.hydrate(db, allRows)
+        .map((event, index) => ({ event, row: allRows[index] }))
+        .filter(({ event }) => matchesQuery(event, query));
+      const page = matching.slice(offset, offset + limit);
+
+      totalCount = matching.length;
+      bestRank = matching[0]?.row.rank ?? 0;
+      rows = page.map(({ row }) => row);
+      events = page.map(({ event }) => event);
+    } else {
+      const count = db.prepare(`SELECT COUNT(*) AS total FROM ${from} ${whereSql}`)
+        .get(...where.params) as { total: number };
+      totalCount = count.total;
+      rows = db.prepare(`${select} LIMIT ? OFFSET ?`).all(...where.params, limit, offset) as EventRow[];
+      events = this.hydrate(db, rows);
+
+      const best = offset === 0
+        ? rows[0]
+        : db.prepare(`${select} LIMIT 1`).get(...where.params) as EventRow | undefined;
+      bestRank = best?.rank ?? 0;
+    }
+
+    if (textSearch) {
+      // BM25 ranks are negative, lower is better; scale them to 0-1 against the best match
+      events.forEach((event, index) => {
+        const rank = rows[index].rank ?? 0;
+        event.score = bestRank < 0 ? rank / bestRank : 1;
+      });
+    }
+
+    this.recordAccess(db, events);
+
+    const result: MemorySearchResult = {
+      memories: events,
+      totalCount,
+      query,
+      searchTime: Date.now() - startTime
+    };
+
+    const chunkMatches = textSearch ? this.matchChunks(db, events, terms!) : [];
+    if (chunkMatches.length > 0) {
+      result.chunkMatches = chunkMatches;
+    }
+
+    return result;
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    const db = this.connection();
+    const existing = await this.get(id);
+    if (!existing) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    const updated: MemoryEvent = {
+      ...existing,
+      ...updates,
+      id,
+      metadata: { ...(updates.metadata || existing.metadata), updated: new Date() }
+    };
+    db.transaction(() => this.writeEvent(db, updated))();
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = this.connection();
+    const deleted = db.transaction(() => this.removeEvent(db, id))();
+    if (!deleted) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+  }
+
+  async get(id: string): Promise<MemoryEvent | undefined> {
+    const db = this.connection();
+    const row = db.prepare(
+      `SELECT ${EVENT_COLUMNS} FROM events e JOIN metadata m ON m.event_id = e.id WHERE e.id = ?`
+    ).get(id) as EventRow | undefined;
+
+    return row ? this.hydrate(db, [row])[0] : undefined;
+  }
+
+  async list(offset = 0, limit = Infinity): Promise<MemoryEvent[]> {
+    const db = this.connection();
+    const rows = db.prepare(
+      `SELECT ${EVENT_COLUMNS} FROM events e JOIN metadata m ON m.event_id = e.id
+       ORDER BY e.timestamp ASC, e.id ASC LIMIT ? OFFSET ?`
+    ).all(Number.isFinite(limit) ? limit : -1, offset) as EventRow[];
+
+    return this.hydrate(db, rows);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  // Get event count
+  getEventCount(): number {
+    const row = this.connection().prepare('SELECT COUNT(*) AS total FROM events').get() as { total: number };
+    return row.total;
+  }
+
+  // Private helper methods
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new StorageError('Backend not initialized');
+    }
+    return this.db;
+  }
+
+  private migrate(db: Database.Database): void {
+    const current = db.pragma('user_version', { simple: true }) as number;
+
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= current) {
+        continue;
+      }
+
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    }
+  }
+
+  private writeEvent(db: Database.Database, event: MemoryEvent): void {
+    // Rewrite the event and all of its child rows
+    this.removeEvent(db, event.id);
+
+    const { content, metadata } = event;
+    const {
+      source, confidence, importance, accessCount, lastAccessed, created, updated, storageTier, ...extra
+    } = metadata;
+
+    db.prepare(
+      `INSERT INTO events (id, type, memory_type, text, embedding, embedding_model, context, timestamp, ttl)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      event.id,
+      event.type,
+      event.memoryType,
+      content.text,
+      content.embedding ? JSON.stringify(content.embedding) : null,
+      content.embeddingModel ?? null,
+      JSON.stringify(event.context),
+      new Date(event.timestamp).getTime(),
+      event.ttl ?? null
+    );
+
+    db.prepare(
+      `INSERT INTO metadata (event_id, source, confidence, importance, access_count, last_accessed,
+         created, updated, storage_tier, extra)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      event.id,
+      source,
+      confidence,
+      importance,
+      accessCount,
+      new Date(lastAccessed).getTime(),
+      new Date(created).getTime(),
+      new Date(updated).getTime(),
+      storageTier,
+      JSON.stringify(extra)
+    );
+
+    const insertKeyword = db.prepare('INSERT INTO keywords (event_id, position, keyword) VALUES (?, ?, ?)');
+    (content.keywords || []).forEach((keyword, index) => insertKeyword.run(event.id, index, keyword));
+
+    const insertTag = db.prepare('INSERT INTO tags (event_id, position, tag) VALUES (?, ?, ?)');
+    (content.tags || []).forEach((tag, index) => insertTag.run(event.id, index, tag));
+
+    const insertRelationship = db.prepare(
+      'INSERT INTO relationships (event_id, position, type, target_id, strength, metadata) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    (content.relationships || []).forEach((relationship, index) => insertRelationship.run(
+      event.id,
+      index,
+      relationship.type,
+      relationship.targetId,
+      relationship.strength,
+      relationship.metadata ? JSON.stringify(relationship.metadata) : null
+    ));
+
+    const insertChunk = db.prepare(
+      'INSERT INTO chunks (event_id, position, id, text, offset, overlap, embedding) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const indexChunk = db.prepare('INSERT INTO chunks_fts (event_id, chunk_id, text) VALUES (?, ?, ?)');
+    (content.chunks || []).forEach((chunk, index) => {
+      insertChunk.run(
+        event.id,
+        index,
+        chunk.id,
+        chunk.text,
+        chunk.position,
+        chunk.overlap ?? null,
+        chunk.embedding ? JSON.stringify(chunk.embedding) : null
+      );
+      indexChunk.run(event.id, chunk.id, chunk.text);
+    });
+
+    db.prepare('INSERT INTO events_fts (event_id, text, keywords, tags) VALUES (?, ?, ?, ?)').run(
+      event.id,
+      content.text,
+      (content.keywords || []).join(' '),
+      (content.tags || []).join(' ')
+    );
+  }
+
+  private removeEvent(db: Database.Database, id: string): boolean {
+    db.prepare('DELETE FROM events_fts WHERE event_id = ?').run(id);
+    db.prepare('DELETE FROM chunks_fts WHERE event_id = ?').run(id);
+    // Child rows cascade
+    return db.prepare('DELETE FROM events WHERE id = ?').run(id).changes > 0;
+  }
+
+  private buildWhere(query: MemoryQuery): WhereClause {
+    const where: WhereClause = { conditions: [], params: [], residual: false };
+
+    if (query.id) {
+      where.conditions.push('e.id = ?');
+      where.params.push(query.id);
+    }
+
+    if (query.memoryTypes && query.memoryTypes.length > 0) {
+      where.conditions.push(`e.memory_type IN (${this.placeholders(query.memoryTypes.length)})`);
+      where.params.push(...query.memoryTypes);
+    }
+
+    if (query.storageTiers && query.storageTiers.length > 0) {
+      where.conditions.push(`m.storage_tier IN (${this.placeholders(query.storageTiers.length)})`);
+      where.params.push(...query.storageTiers);
+    }
+
+    if (query.timeRange?.start) {
+      where.conditions.push('e.timestamp >= ?');
+      where.params.push(new Date(query.timeRange.start).getTime());
+    }
+    if (query.timeRange?.end) {
+      where.conditions.push('e.timestamp <= ?');
+      where.params.push(new Date(query.timeRange.end).getTime());
+    }
+
+    // The scope restricts results like filters do
+    for (const filter of [query.filters, query.scope]) {
+      if (!filter) {
+        continue;
+      }
+      validateFilter(filter);
+
+      // Each top-level condition is either translated completely or checked in memory
+      for (const [key, condition] of Object.entries(filter)) {
+        const fragment = this.translateFilter({ [key]: condition } as FilterExpression);
+        if (fragment) {
+          where.conditions.push(`(${fragment.sql})`);
+          where.params.push(...fragment.params);
+        } else {
+          where.residual = true;
+        }
+      }
+    }
+
+    return where;
+  }
+
+  /**
+   * Translate a filter expression into SQL, or return null when part of it
+   * can only be evaluated in memory. Translated conditions never reject an
+   * event the reference evaluator would accept.
+   */
+  private translateFilter(filter: FilterExpression): SqlFragment | null {
+    const parts: SqlFragment[] = [];
+
+    for (const [key, condition] of Object.entries(filter)) {
+      let part: SqlFragment | null;
+
+      if (key === '$and' || key === '$or') {
+        const items = (condition as FilterExpression[]).map(item => this.translateFilter(item));
+        part = items.every(item => item !== null)
+          ? this.joinFragments(items as SqlFragment[], key === '$and' ? 'AND' : 'OR')
+          : null;
+      } else if (key === '$not') {
+        // NOT over columns that may be NULL does not match the evaluator
+        part = null;
+      } else {
+        part = this.translateCondition(key, condition);
+      }
+
+      if (!part) {
+        return null;
+      }
+      parts.push(part);
+    }
+
+    return this.joinFragments(parts, 'AND');
+  }
+
+  private translateCondition(key: string, condition: unknown): SqlFragment | null {
+    const operators = isOperatorObject(condition) ? Object.entries(condition) : [['$eq', condition] as [string, unknown]];
+    const segments = filterPath(key);
+    const parts: SqlFragment[] = [];
+
+    for (const [operator, operand] of operators) {
+      const part = this.translateOperator(segments, operator, operand);
+      if (!part) {
+        return null;
+      }
+      parts.push(part);
+    }
+
+    return this.joinFragments(parts, 'AND');
+  }
+
+  private translateOperator(segments: string[], operator: string, operand: unknown): SqlFragment | null {
+    const column = this.filterColumn(segments);
+
+    if (column) {
+      // Columns are never NULL, so negations translate directly
+      const value = (item: unknown) => column.kind === 'date'
+        ? toTime(item)
+        : (typeof item === column.kind ? item : undefined);
+
+      if (operator === '$exists') {
+        return { sql: operand ? '1' : '0', params: [] };
+      }
+      if (operator === '$contains') {
+        return column.kind === 'string' && typeof operand === 'string'
+          ? { sql: `instr(${column.column}, ?) > 0`, params: [operand] }
+          : null;
+      }
+      if (operator === '$in' || operator === '$nin') {
+        const values = (operand as unknown[]).map(value);
+        if (values.some(item => item === undefined)) {
+          return null;
+        }
+        if (values.length === 0) {
+          return { sql: operator === '$in' ? '0' : '1', params: [] };
+        }
+        return {
+          sql: `${column.column} ${operator === '$in' ? 'IN' : 'NOT IN'} (${this.placeholders(values.length)})`,
+          params: values
+        };
+      }
+
+      const comparison = COMPARISONS[operator];
+      const bound = value(operand);
+      return comparison && bound !== undefined
+        ? { sql: `${column.column} ${comparison} ?`, params: [bound] }
+        : null;
+    }
+
+    // Single keys in the remaining metadata or the context JSON; arrays match per element
+    const document = segments.length === 2 && segments[0] === 'metadata' ? 'm.extra'
+      : segments.length === 2 && segments[0] === 'context' && segments[1] !== 'timestamp' ? 'e.context'
+      : null;
+    if (!document) {
+      return null;
+    }
+
+    const path = `$."${segments[1].replace(/"/g, '\\"')}"`;
+    if (operator === '$exists') {
+      return { sql: `json_type(${document}, ?) IS ${operand ? 'NOT NULL' : 'NULL'}`, params: [path] };
+    }
+
+    const element = (comparison: string, item: unknown): SqlFragment | null => {
+      const type = typeof item === 'string' ? `j.type = 'text'`
+        : typeof item === 'number' ? `j.type IN ('integer', 'real')`
+        : null;
+      if (typeof item === 'boolean' || item === null) {
+        return comparison === '='
+          ? { sql: `j.type = '${item === null ? 'null' : String(item)}'`, params: [] }
+          : null;
+      }
+      return type ? { sql: `${type} AND j.value ${comparison} ?`, params: [item] } : null;
+    };
+
+    let match: SqlFragment | null;
+    if (operator === '$in') {
+      const items = (operand as unknown[]).map(item => element('=', item));
+      match = items.length > 0 && items.every(item => item !== null)
+        ? this.joinFragments(items as SqlFragment[], 'OR')
+        : items.length === 0 ? { sql: '0', params: [] } : null;
+    } else {
+      match = COMPARISONS[operator] && operator !== '$ne' ? element(COMPARISONS[operator], operand) : null;
+    }
+    if (!match) {
+      return null;
+    }
+
+    return {
+      sql: `json_type(${document}, ?) <> 'object' AND EXISTS (SELECT 1 FROM json_each(${document}, ?) j WHERE ${match.sql})`,
+      params: [path, path, ...match.params]
+    };
+  }
+
+  private filterColumn(segments: string[]): { column: string; kind: 'string' | 'number' | 'date' } | null {
+    const [root, field, ...rest] = segments;
+    if (rest.length > 0) {
+      return null;
+    }
+
+    if (root === 'metadata' && field !== undefined) {
+      return METADATA_COLUMNS[field] || (DATE_FIELDS[field] ? { column: DATE_FIELDS[field], kind: 'date' } : null);
+    }
+    if (root === 'content' && field === 'text') {
+      return { column: 'e.text', kind: 'string' };
+    }
+    return field === undefined ? EVENT_FILTER_COLUMNS[root] || null : null;
+  }
+
+  private joinFragments(fragments: SqlFragment[], operator: 'AND' | 'OR'): SqlFragment {
+    if (fragments.length === 0) {
+      return { sql: '1', params: [] };
+    }
+    return {
+      sql: fragments.length === 1 ? fragments[0].sql : fragments.map(fragment => `(${fragment.sql})`).join(` ${operator} `),
+      params: fragments.flatMap(fragment => fragment.params)
+    };
+  }
+
+  private ftsQuery(text: string | undefined): string | null {
+    // Quote each token so user input never reaches the FTS5 query syntax
+    const tokens = (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    return tokens && tokens.length > 0 ? tokens.map(token => `"${token}"`).join(' OR ') : null;
+  }
+
+  private hydrate(db: Database.Database, rows: EventRow[]): MemoryEvent[] {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids = rows.map(row => row.id);
+    const children = <T extends { event_id: string }>(table: string): Map<string, T[]> => {
+      const grouped = new Map<string, T[]>();
+      const childRows = db.prepare(
+        `SELECT * FROM ${table} WHERE event_id IN (${this.placeholders(ids.length)}) ORDER BY event_id, position`
+      ).all(...ids) as T[];
+      for (const row of childRows) {
+        if (!grouped.has(row.event_id)) {
+          grouped.set(row.event_id, []);
+        }
+        grouped.get(row.event_id)!.push(row);
+      }
+      return grouped;
+    };
+
+    const keywords = children<{ event_id: string; keyword: string }>('keywords');
+    const tags = children<{ event_id: string; tag: string }>('tags');
+    const relationships = children<{
+      event_id: string; type: string; target_id: string; strength: number; metadata: string | null
+    }>('relationships');
+    const chunks = children<{
+      event_id: string; id: string; text: string; offset: number; overlap: number | null; embedding: string | null
+    }>('chunks');
+
+    return rows.map(row => {
+      const metadata: MemoryMetadata = {
+        ...JSON.parse(row.extra),
+        source: row.source,
+        confidence: row.confidence,
+        importance: row.importance,
+        accessCount: row.access_count,
+        lastAccessed: new Date(row.last_accessed),
+        created: new Date(row.created),
+        updated: new Date(row.updated),
+        storageTier: row.storage_tier as StorageTier
+      };
+
+      const event: MemoryEvent = reviveEvent({
+        id: row.id,
+        type: row.type as MemoryEvent['type'],
+        memoryType: row.memory_type as MemoryEvent['memoryType'],
+        context: JSON.parse(row.context),
+        content: {
+          text: row.text,
+          keywords: (keywords.get(row.id) || []).map(entry => entry.keyword),
+          tags: (tags.get(row.id) || []).map(entry => entry.tag)
+        },
+        metadata,
+        timestamp: new Date(row.timestamp)
+      });
+
+      if (row.ttl !== null) {
+        event.ttl = row.ttl;
+      }
+      if (row.embedding) {
+        event.content.embedding = JSON.parse(row.embedding);
+      }
+      if (row.embedding_model) {
+        event.content.embeddingModel = row.embedding_model;
+      }
+
+      const eventRelationships = relationships.get(row.id);
+      if (eventRelationships) {
+        event.content.relationships = eventRelationships.map(entry => ({
+          type: entry.type as RelationshipType,
+          targetId: entry.target_id,
+          strength: entry.strength,
+          ...(entry.metadata ? { metadata: JSON.parse(entry.metadata) } : {})
+        }));
+      }
+
+      const eventChunks = chunks.get(row.id);
+      if (eventChunks) {
+        event.content.chunks = eventChunks.map(entry => ({
+          id: entry.id,
+          text: entry.text,
+          position: entry.offset,
+          ...(entry.overlap !== null ? { overlap: entry.overlap } : {}),
+          ...(entry.embedding ? { embedding: JSON.parse(entry.embedding) } : {})
+        }));
+      }
+
+      return event;
+    });
+  }
+
+  private recordAccess(db: Database.Database, events: MemoryEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+
+    // Update access metadata for retrieved events
+    const now = new Date();
+    db.prepare(
+      `UPDATE metadata SET access_count = access_count + 1, last_accessed = ?
+       WHERE event_id IN (${this.placeholders(events.length)})`
+    ).run(now.getTime(), ...events.map(event => event.id));
+
+    for (const event of events) {
+      event.metadata.accessCount++;
+      event.metadata.lastAccessed = now;
+    }
+  }
+
+  private matchChunks(db: Database.Database, events: MemoryEvent[], terms: string): ChunkMatch[] {
+    const chunked = events.filter(event => event.content.chunks && event.content.chunks.length > 0);
+    if (chunked.length === 0) {
+      return [];
+    }
+
+    // The best-ranked chunk of each memory, in the order of the memories
+    const rows = db.prepare(
+      `SELECT event_id, chunk_id FROM chunks_fts
+       WHERE chunks_fts MATCH ? AND event_id IN (${this.placeholders(chunked.length)})
+       ORDER BY rank`
+    ).all(terms, ...chunked.map(event => event.id)) as { event_id: string; chunk_id: string }[];
+
+    const best = new Map<string, string>();
+    for (const row of rows) {
+      if (!best.has(row.event_id)) {
+        best.set(row.event_id, row.chunk_id);
+      }
+    }
+
+    const matches: ChunkMatch[] = [];
+    for (const event of chunked) {
+      const chunk = event.content.chunks!.find(candidate => candidate.id === best.get(event.id));
+      if (chunk) {
+        matches.push({ memoryId: event.id, chunk, score: event.score || 0 });
+      }
+    }
+
+    return matches;
+  }
+
+  private placeholders(count: number): string {
+    return new Array(count).fill('?').join(', ');
+  }
+}
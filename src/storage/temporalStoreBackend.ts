@@ -0,0 +1,323 @@
+import {
+  StorageTier,
+  MemoryEvent,
+  MemoryQuery,
+  MemoryType,
+  StorageError
+} from '../core/types.js';
+import { InMemoryBackend } from './inMemoryBackend.js';
+
+export type TimelineInterval = 'hour' | 'day' | 'week';
+
+export interface TimelineOptions {
+  memoryTypes?: MemoryType[];
+  sessionId?: string;
+  userId?: string;
+}
+
+export interface TimelineBucket {
+  start: Date;
+  end: Date;
+  count: number;
+  byType: Partial<Record<MemoryType, number>>;
+}
+
+export interface Episode {
+  start: Date;
+  end: Date;
+  sessionId?: string; // Set when episodes are split by session
+  memories: MemoryEvent[];
+}
+
+export interface MemoryNeighborhood {
+  before: MemoryEvent[]; // Oldest first
+  memory: MemoryEvent;
+  after: MemoryEvent[];
+}
+
+interface TimeEntry {
+  time: number;
+  id: string;
+}
+
+const INTERVAL_MS: Record<TimelineInterval, number> = {
+  hour: 3600 * 1000,
+  day: 86400 * 1000,
+  week: 7 * 86400 * 1000
+};
+
+// 1970-01-01 was a Thursday; weekly buckets start on Monday 00:00 UTC
+const WEEK_OFFSET_MS = 4 * 86400 * 1000;
+
+/**
+ * Temporal storage backend for time-based access to memories
+ * Keeps events in a sorted index on MemoryEvent.timestamp, so time ranges,
+ * neighbors in time, episodes and timeline histograms avoid full scans
+ */
+export class TemporalStoreBackend extends InMemoryBackend {
+  public readonly name: string = 'temporal-store';
+  public readonly type: StorageTier = StorageTier.TEMPORAL_STORE;
+
+  private timeline: TimeEntry[] = [];
+  private indexedTimes: Map<string, number> = new Map();
+
+  async store(event: MemoryEvent): Promise<void> {
+    await super.store(event);
+    this.indexEvent(this.events.get(event.id)!);
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    await super.update(id, updates);
+
+    if (updates.timestamp) {
+      this.indexEvent(this.events.get(id)!);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+    this.unindexEvent(id);
+  }
+
+  /**
+   * Memories with a timestamp in [start, end], oldest first
+   */
+  async between(start: Date, end: Date, options: TimelineOptions = {}): Promise<MemoryEvent[]> {
+    this.assertInitialized();
+    return this.range(new Date(start).getTime(), new Date(end).getTime(), options);
+  }
+
+  /**
+   * The memories immediately before and after a memory in time
+   */
+  async around(
+    memoryId: string,
+    counts: { before?: number; after?: number } = {},
+    options: TimelineOptions = {}
+  ): Promise<MemoryNeighborhood> {
+    this.assertInitialized();
+
+    const memory = this.events.get(memoryId);
+    if (!memory) {
+      throw new StorageError(`Event not found: ${memoryId}`);
+    }
+
+    const position = this.lowerBound(this.indexedTimes.get(memoryId)!, memoryId);
+    const before: MemoryEvent[] = [];
+    const after: MemoryEvent[] = [];
+
+    for (let i = position - 1; i >= 0 && before.length < (counts.before ?? 5); i--) {
+      const event = this.events.get(this.timeline[i].id)!;
+      if (this.matches(event, options)) {
+        before.unshift(event);
+      }
+    }
+    for (let i = position + 1; i < this.timeline.length && after.length < (counts.after ?? 5); i++) {
+      const event = this.events.get(this.timeline[i].id)!;
+      if (this.matches(event, options)) {
+        after.push(event);
+      }
+    }
+
+    return { before, memory, after };
+  }
+
+  /**
+   * Group memories into episodes, starting a new one whenever the gap between
+   * consecutive memories exceeds `gap` seconds
+   */
+  async episodes(
+    options: TimelineOptions & { gap?: number; start?: Date; end?: Date; bySession?: boolean } = {}
+  ): Promise<Episode[]> {
+    this.assertInitialized();
+
+    const gapMs = (options.gap ?? 1800) * 1000;
+    const events = this.range(
+      options.start ? new Date(options.start).getTime() : -Infinity,
+      options.end ? new Date(options.end).getTime() : Infinity,
+      options
+    );
+
+    // With bySession, each session forms its own timeline
+    const timelines = new Map<string, MemoryEvent[]>();
+    for (const event of events) {
+      const key = options.bySession ? event.context.sessionId : '';
+      if (!timelines.has(key)) {
+        timelines.set(key, []);
+      }
+      timelines.get(key)!.push(event);
+    }
+
+    const episodes: Episode[] = [];
+    for (const [sessionId, sessionEvents] of timelines) {
+      let current: MemoryEvent[] = [];
+
+      for (const event of sessionEvents) {
+        const previous = current[current.length - 1];
+        if (previous && event.timestamp.getTime() - previous.timestamp.getTime() > gapMs) {
+          episodes.push(this.toEpisode(current, options.bySession ? sessionId : undefined));
+          current = [];
+        }
+        current.push(event);
+      }
+
+      if (current.length > 0) {
+        episodes.push(this.toEpisode(current, options.bySession ? sessionId : undefined));
+      }
+    }
+
+    return episodes.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Count memories per hour, day or week (UTC; weeks start on Monday).
+   * Buckets with no memories between the first and the last are included.
+   */
+  async histogram(
+    interval: TimelineInterval,
+    options: TimelineOptions & { start?: Date; end?: Date } = {}
+  ): Promise<TimelineBucket[]> {
+    this.assertInitialized();
+
+    const size = INTERVAL_MS[interval];
+    if (!size) {
+      throw new StorageError(`Unsupported timeline interval: ${interval}`);
+    }
+
+    const events = this.range(
+      options.start ? new Date(options.start).getTime() : -Infinity,
+      options.end ? new Date(options.end).getTime() : Infinity,
+      options
+    );
+    if (events.length === 0) {
+      return [];
+    }
+
+    const offset = interval === 'week' ? WEEK_OFFSET_MS : 0;
+    const bucketOf = (time: number) => Math.floor((time - offset) / size);
+    const first = bucketOf(options.start ? new Date(options.start).getTime() : events[0].timestamp.getTime());
+    const last = bucketOf(options.end
+      ? new Date(options.end).getTime()
+      : events[events.length - 1].timestamp.getTime());
+
+    const buckets: TimelineBucket[] = [];
+    for (let bucket = first; bucket <= last; bucket++) {
+      buckets.push({
+        start: new Date(bucket * size + offset),
+        end: new Date((bucket + 1) * size + offset),
+        count: 0,
+        byType: {}
+      });
+    }
+
+    for (const event of events) {
+      const bucket = buckets[bucketOf(event.timestamp.getTime()) - first];
+      bucket.count++;
+      bucket.byType[event.memoryType] = (bucket.byType[event.memoryType] || 0) + 1;
+    }
+
+    return buckets;
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this.timeline = [];
+    this.indexedTimes.clear();
+  }
+
+  clear(): void {
+    super.clear();
+    this.timeline = [];
+    this.indexedTimes.clear();
+  }
+
+  protected candidates(query: MemoryQuery): Iterable<MemoryEvent> {
+    if (!query.timeRange?.start && !query.timeRange?.end) {
+      return super.candidates(query);
+    }
+
+    return this.range(
+      query.timeRange.start ? new Date(query.timeRange.start).getTime() : -Infinity,
+      query.timeRange.end ? new Date(query.timeRange.end).getTime() : Infinity
+    );
+  }
+
+  // Private helper methods
+
+  private range(start: number, end: number, options: TimelineOptions = {}): MemoryEvent[] {
+    const events: MemoryEvent[] = [];
+
+    for (let i = this.lowerBound(start); i < this.timeline.length && this.timeline[i].time <= end; i++) {
+      const event = this.events.get(this.timeline[i].id)!;
+      if (this.matches(event, options)) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  private matches(event: MemoryEvent, options: TimelineOptions): boolean {
+    if (options.memoryTypes && options.memoryTypes.length > 0 && !options.memoryTypes.includes(event.memoryType)) {
+      return false;
+    }
+    if (options.sessionId !== undefined && event.context.sessionId !== options.sessionId) {
+      return false;
+    }
+    if (options.userId !== undefined && event.context.userId !== options.userId) {
+      return false;
+    }
+    return true;
+  }
+
+  private toEpisode(events: MemoryEvent[], sessionId?: string): Episode {
+    return {
+      start: events[0].timestamp,
+      end: events[events.length - 1].timestamp,
+      ...(sessionId !== undefined ? { sessionId } : {}),
+      memories: events
+    };
+  }
+
+  private indexEvent(event: MemoryEvent): void {
+    this.unindexEvent(event.id);
+
+    const time = new Date(event.timestamp).getTime();
+    this.timeline.splice(this.lowerBound(time, event.id), 0, { time, id: event.id });
+    this.indexedTimes.set(event.id, time);
+  }
+
+  private unindexEvent(id: string): void {
+    const time = this.indexedTimes.get(id);
+    if (time === undefined) {
+      return;
+    }
+
+    this.timeline.splice(this.lowerBound(time, id), 1);
+    this.indexedTimes.delete(id);
+  }
+
+  private lowerBound(time: number, id = ''): number {
+    // First position not before (time, id); entries are ordered by time, then id
+    let low = 0;
+    let high = this.timeline.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const entry = this.timeline[middle];
+      if (entry.time < time || (entry.time === time && entry.id < id)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  private assertInitialized(): void {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+  }
+}
@@ -0,0 +1,195 @@
+export interface TextFields {
+  text: string;
+  keywords?: string[];
+  tags?: string[];
+}
+
+export interface Bm25Options {
+  k1?: number; // Term frequency saturation, defaults to 1.2
+  b?: number;  // Document length normalization, defaults to 0.75
+}
+
+// Weight of a term occurrence per field
+const FIELD_WEIGHTS = { text: 1.0, keywords: 0.5, tags: 0.75 };
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves',
+  'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+  'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves'
+]);
+
+const DERIVATIONAL_SUFFIXES: [string, string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['iveness', 'ive'],
+  ['ness', ''],
+  ['ment', ''],
+  ['ly', '']
+];
+
+/**
+ * Split text into stemmed terms, dropping stopwords
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(word => !STOPWORDS.has(word)).map(stem);
+}
+
+/**
+ * Light English suffix-stripping stemmer
+ * Conflates plurals, -ing/-ed forms and common derivations ("floods",
+ * "flooded", "flooding" -> "flood"); not a full Porter implementation
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let result = word;
+
+  // Plurals
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  // Verb forms, keeping a stem of at least three letters with a vowel
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed']) {
+    const base = result.slice(0, -suffix.length);
+    if (result.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base) && !(suffix === 'ed' && base.endsWith('e'))) {
+      result = base;
+      // Undouble: "running" -> "runn" -> "run"
+      if (/([^aeiouslz])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  for (const [suffix, replacement] of DERIVATIONAL_SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  // "store" and "stored" both become "stor"
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Inverted index over memory text, keywords and tags with BM25 scoring
+ */
+export class TextIndex {
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> document -> weighted frequency
+  private documents: Map<string, { terms: string[]; length: number }> = new Map();
+  private totalLength = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  add(id: string, fields: TextFields): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    const addTerms = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    };
+
+    addTerms(fields.text, FIELD_WEIGHTS.text);
+    (fields.keywords || []).forEach(keyword => addTerms(keyword, FIELD_WEIGHTS.keywords));
+    (fields.tags || []).forEach(tag => addTerms(tag, FIELD_WEIGHTS.tags));
+
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, frequency);
+    }
+
+    this.documents.set(id, { terms: Array.from(frequencies.keys()), length });
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * BM25 score of every document containing at least one query term
+   */
+  search(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const count = this.documents.size;
+    if (count === 0) {
+      return scores;
+    }
+
+    const averageLength = this.totalLength / count || 1;
+
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        const length = this.documents.get(id)!.length;
+        const norm = frequency * (this.k1 + 1)
+          / (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * norm);
+      }
+    }
+
+    return scores;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalLength = 0;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+}
@@ -0,0 +1,264 @@
+import {
+  StorageBackend,
+  StorageTier,
+  MemoryEvent,
+  MemoryQuery,
+  MemorySearchResult,
+  ChunkMatch,
+  StorageError,
+  DEFAULT_SEARCH_LIMIT,
+  DEFAULT_SIMILARITY_THRESHOLD
+} from '../core/types.js';
+import { HnswIndex, HnswOptions } from './hnswIndex.js';
+import { matchesQuery, compareResults } from './queryMatcher.js';
+
+interface VectorRef {
+  eventId: string;
+  chunkId?: string;
+}
+
+/**
+ * Vector store backend for semantic similarity search
+ * Indexes event and chunk embeddings in an HNSW graph and answers
+ * queries carrying MemoryQuery.embedding
+ */
+export class VectorStoreBackend implements StorageBackend {
+  public readonly name = 'vector-store';
+  public readonly type = StorageTier.VECTOR_STORE;
+
+  private events: Map<string, MemoryEvent> = new Map();
+  private vectorRefs: Map<string, VectorRef> = new Map();
+  private eventVectors: Map<string, string[]> = new Map();
+  private index: HnswIndex;
+  private initialized = false;
+
+  constructor(options: HnswOptions = {}) {
+    this.index = new HnswIndex(options);
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      throw new StorageError('Backend already initialized');
+    }
+
+    this.initialized = true;
+  }
+
+  async store(event: MemoryEvent): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    this.unindexEvent(event.id);
+    this.indexEvent(event);
+    this.events.set(event.id, { ...event });
+  }
+
+  async retrieve(query: MemoryQuery): Promise<MemorySearchResult> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    const startTime = Date.now();
+    const offset = query.offset || 0;
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+    let results: MemoryEvent[] = [];
+    const chunkHits: Map<string, ChunkMatch> = new Map();
+
+    if (query.id) {
+      // If querying by ID, return direct match
+      const event = this.events.get(query.id);
+      if (event && matchesQuery(event, query)) {
+        results = [event];
+      }
+    } else if (query.embedding) {
+      results = this.searchSimilar(query, offset + limit, chunkHits);
+    }
+
+    const paginatedResults = results.slice(offset, offset + limit);
+
+    // Update access metadata for retrieved events
+    for (const event of paginatedResults) {
+      const stored = this.events.get(event.id);
+      if (stored) {
+        stored.metadata.lastAccessed = new Date();
+        stored.metadata.accessCount++;
+      }
+    }
+
+    const result: MemorySearchResult = {
+      memories: paginatedResults,
+      totalCount: results.length,
+      query,
+      searchTime: Date.now() - startTime
+    };
+
+    const chunkMatches = paginatedResults
+      .map(event => chunkHits.get(event.id))
+      .filter((match): match is ChunkMatch => match !== undefined);
+    if (chunkMatches.length > 0) {
+      result.chunkMatches = chunkMatches;
+    }
+
+    return result;
+  }
+
+  async update(id: string, updates: Partial<MemoryEvent>): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    const event = this.events.get(id);
+    if (!event) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    const updatedEvent = { ...event, ...updates, id };
+    updatedEvent.metadata.updated = new Date();
+
+    this.unindexEvent(id);
+    try {
+      this.indexEvent(updatedEvent);
+    } catch (error) {
+      this.indexEvent(event);
+      throw error;
+    }
+
+    this.events.set(id, updatedEvent);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    if (!this.events.delete(id)) {
+      throw new StorageError(`Event not found: ${id}`);
+    }
+
+    this.unindexEvent(id);
+  }
+
+  async get(id: string): Promise<MemoryEvent | undefined> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return this.events.get(id);
+  }
+
+  async list(offset = 0, limit = Infinity): Promise<MemoryEvent[]> {
+    if (!this.initialized) {
+      throw new StorageError('Backend not initialized');
+    }
+
+    return Array.from(this.events.values()).slice(offset, offset + limit);
+  }
+
+  async close(): Promise<void> {
+    this.events.clear();
+    this.vectorRefs.clear();
+    this.eventVectors.clear();
+    this.index.clear();
+    this.initialized = false;
+  }
+
+  // Get event count
+  getEventCount(): number {
+    return this.events.size;
+  }
+
+  // Get indexed vector count, including chunk vectors
+  getVectorCount(): number {
+    return this.index.size;
+  }
+
+  // Private helper methods
+
+  private indexEvent(event: MemoryEvent): void {
+    const vectors: [string, number[], VectorRef][] = [];
+
+    if (event.content.embedding) {
+      vectors.push([event.id, event.content.embedding, { eventId: event.id }]);
+    }
+
+    // Chunks are indexed individually so long documents match on their best passage
+    for (const chunk of event.content.chunks || []) {
+      if (chunk.embedding) {
+        vectors.push([`${event.id}::${chunk.id}`, chunk.embedding, { eventId: event.id, chunkId: chunk.id }]);
+      }
+    }
+
+    const keys: string[] = [];
+    this.eventVectors.set(event.id, keys);
+
+    try {
+      for (const [key, vector, ref] of vectors) {
+        this.index.add(key, vector);
+        this.vectorRefs.set(key, ref);
+        keys.push(key);
+      }
+    } catch (error) {
+      // Leave no partially indexed event behind
+      this.unindexEvent(event.id);
+      throw error;
+    }
+  }
+
+  private unindexEvent(id: string): void {
+    for (const key of this.eventVectors.get(id) || []) {
+      this.index.remove(key);
+      this.vectorRefs.delete(key);
+    }
+    this.eventVectors.delete(id);
+  }
+
+  private searchSimilar(query: MemoryQuery, needed: number, chunkHits: Map<string, ChunkMatch>): MemoryEvent[] {
+    const threshold = query.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+
+    // Pre-filter during graph traversal so filtered-out events never take result slots
+    const filter = (key: string) => {
+      const ref = this.vectorRefs.get(key);
+      const event = ref && this.events.get(ref.eventId);
+      return !!event && matchesQuery(event, query);
+    };
+
+    let k = needed * 2;
+    let best: Map<string, number> = new Map();
+
+    // Several chunk hits can collapse into one event, so widen the search until enough events remain
+    while (true) {
+      const matches = this.index.search(query.embedding!, k, filter);
+      best = new Map();
+      chunkHits.clear();
+
+      for (const match of matches) {
+        if (match.similarity < threshold) {
+          continue;
+        }
+        const { eventId, chunkId } = this.vectorRefs.get(match.key)!;
+        if (!best.has(eventId) || best.get(eventId)! < match.similarity) {
+          best.set(eventId, match.similarity);
+
+          const chunk = chunkId && this.events.get(eventId)!.content.chunks?.find(c => c.id === chunkId);
+          if (chunk) {
+            chunkHits.set(eventId, { memoryId: eventId, chunk, score: match.similarity });
+          } else {
+            chunkHits.delete(eventId);
+          }
+        }
+      }
+
+      const exhausted = matches.length < k || k >= this.index.size;
+      const belowThreshold = matches.length > 0 && matches[matches.length - 1].similarity < threshold;
+      if (best.size >= needed || exhausted || belowThreshold) {
+        break;
+      }
+      k *= 2;
+    }
+
+    return Array.from(best.entries())
+      .map(([eventId, score]) => ({ ...this.events.get(eventId)!, score }))
+      .sort(compareResults);
+  }
+}
@@ -0,0 +1,212 @@
+import { EventEmitter } from 'events';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { Transport, ProtocolMessage, TransportError } from '../core/types.js';
+
+/**
+ * HTTP transport implementation for request-response memory protocol communication
+ * Accepts JSON-RPC 2.0 messages via POST and optionally streams server messages
+ * to clients over Server-Sent Events
+ */
+export class HttpTransport extends EventEmitter implements Transport {
+  public readonly name: string;
+
+  private app = express();
+  private server: Server | null = null;
+  private port: number;
+  private host: string;
+  private rpcPath: string;
+  private eventsPath: string;
+  private sse: boolean;
+  private requestTimeout: number;
+  private pendingRequests: Map<string, { res: Response; timer: NodeJS.Timeout }> = new Map();
+  private streams: Map<string, Response> = new Map();
+  private connected = false;
+
+  constructor(options: {
+    port?: number;
+    host?: string;
+    path?: string;
+    eventsPath?: string;
+    sse?: boolean;
+    cors?: boolean;
+    requestTimeout?: number;
+  } = {}) {
+    super();
+    this.port = options.port ?? 8081;
+    this.host = options.host || '0.0.0.0';
+    this.rpcPath = options.path || '/rpc';
+    this.eventsPath = options.eventsPath || '/events';
+    this.sse = options.sse ?? false;
+    this.requestTimeout = options.requestTimeout || 30000;
+    this.name = this.sse ? 'sse' : 'http';
+
+    this.app.use(helmet());
+    if (options.cors !== false) {
+      this.app.use(cors());
+    }
+    this.app.use(express.json());
+    this.setupRoutes();
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(this.port, this.host);
+
+      server.on('listening', () => {
+        this.server = server;
+        this.connected = true;
+        this.emit('connected');
+        resolve();
+      });
+
+      server.on('error', (error: Error) => {
+        reject(new TransportError(
+          `Server error: ${error.message}`,
+          error
+        ));
+      });
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected || !this.server) {
+      return;
+    }
+
+    for (const { res, timer } of this.pendingRequests.values()) {
+      clearTimeout(timer);
+      res.status(503).end();
+    }
+    this.pendingRequests.clear();
+
+    for (const stream of this.streams.values()) {
+      stream.end();
+    }
+    this.streams.clear();
+
+    return new Promise((resolve) => {
+      this.server!.close(() => {
+        this.connected = false;
+        this.server = null;
+        this.emit('disconnected');
+        resolve();
+      });
+    });
+  }
+
+  async send(message: ProtocolMessage, clientId?: string): Promise<void> {
+    if (!this.connected) {
+      throw new TransportError('Server not connected');
+    }
+
+    const messageWithHeaders = {
+      ...message,
+      headers: {
+        ...message.headers,
+        'transport': this.name,
+        'timestamp': new Date().toISOString()
+      }
+    };
+
+    if (clientId) {
+      const pending = this.pendingRequests.get(clientId);
+      if (pending) {
+        // Reply to the originating HTTP request
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(clientId);
+        pending.res.json(messageWithHeaders);
+      } else {
+        const stream = this.streams.get(clientId);
+        if (!stream) {
+          throw new TransportError(`Client not found: ${clientId}`);
+        }
+        this.writeEvent(stream, messageWithHeaders);
+      }
+    } else {
+      // Broadcast to all event stream clients
+      for (const stream of this.streams.values()) {
+        this.writeEvent(stream, messageWithHeaders);
+      }
+    }
+
+    this.emit('messageSent', message, clientId);
+  }
+
+  isConnected(): boolean {
+    return this.connected && this.server !== null;
+  }
+
+  getClientCount(): number {
+    return this.streams.size;
+  }
+
+  private setupRoutes(): void {
+    this.app.post(this.rpcPath, (req: Request, res: Response) => {
+      const message = req.body as ProtocolMessage;
+      // Posted messages must be requests or notifications; nothing would answer anything else
+      if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        res.status(400).json({
+          jsonrpc: '2.0',
+          id: message?.id ?? null,
+          error: { code: -32600, message: 'Invalid JSON-RPC request' }
+        });
+        return;
+      }
+
+      const clientId = this.generateClientId();
+
+      // Notifications carry no id and receive no response
+      if (message.id === undefined) {
+        res.status(202).end();
+      } else {
+        const timer = setTimeout(() => {
+          this.pendingRequests.delete(clientId);
+          res.status(504).json({
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: 504, message: 'Request timed out' }
+          });
+        }, this.requestTimeout);
+        this.pendingRequests.set(clientId, { res, timer });
+      }
+
+      this.emit('message', message, clientId, req.headers);
+    });
+
+    if (this.sse) {
+      this.app.get(this.eventsPath, (req: Request, res: Response) => {
+        const clientId = this.generateClientId();
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive'
+        });
+        res.write(`event: connected\ndata: ${JSON.stringify({ clientId })}\n\n`);
+
+        this.streams.set(clientId, res);
+        this.emit('clientConnected', { clientId, request: req });
+
+        req.on('close', () => {
+          this.streams.delete(clientId);
+          this.emit('clientDisconnected', { clientId });
+        });
+      });
+    }
+  }
+
+  private writeEvent(stream: Response, message: ProtocolMessage): void {
+    stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private generateClientId(): string {
+    return `http_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
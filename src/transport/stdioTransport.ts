@@ -0,0 +1,101 @@
+import { EventEmitter, once } from 'events';
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { Transport, ProtocolMessage, TransportError } from '../core/types.js';
+
+/**
+ * Stdio transport implementation for command-line integration
+ * Exchanges newline-delimited JSON-RPC 2.0 messages, following the MCP stdio transport
+ */
+export class StdioTransport extends EventEmitter implements Transport {
+  public readonly name = 'stdio';
+  public readonly streaming = true;
+
+  private input: Readable;
+  private output: Writable;
+  private reader: Interface | null = null;
+  private connected = false;
+
+  constructor(options: {
+    input?: Readable;
+    output?: Writable;
+  } = {}) {
+    super();
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    this.reader = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    this.reader.on('line', (line: string) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      try {
+        const message = JSON.parse(line) as ProtocolMessage;
+        this.emit('message', message);
+      } catch (error: any) {
+        this.emit('error', new TransportError(
+          `Failed to parse message: ${error.message}`,
+          { data: line }
+        ));
+      }
+    });
+
+    this.reader.on('close', () => {
+      this.connected = false;
+      this.emit('disconnected');
+    });
+
+    this.connected = true;
+    this.emit('connected');
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected || !this.reader) {
+      return;
+    }
+
+    this.reader.close();
+    this.reader = null;
+    this.connected = false;
+  }
+
+  async send(message: ProtocolMessage): Promise<void> {
+    if (!this.connected) {
+      throw new TransportError('Stdio transport not connected');
+    }
+
+    const messageWithHeaders = {
+      ...message,
+      headers: {
+        ...message.headers,
+        'transport': 'stdio',
+        'timestamp': new Date().toISOString()
+      }
+    };
+
+    try {
+      // Wait for the output to drain when its buffer is full
+      if (!this.output.write(JSON.stringify(messageWithHeaders) + '\n')) {
+        await once(this.output, 'drain');
+      }
+      this.emit('messageSent', message);
+    } catch (error: any) {
+      throw new TransportError(
+        `Failed to send message: ${error.message}`,
+        error
+      );
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
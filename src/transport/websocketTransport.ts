@@ -1,6 +1,14 @@
 import { EventEmitter } from 'events';
-import WebSocket from 'ws';
-import { Transport, ProtocolMessage, TransportError } from '../core/types.js';
+import { IncomingMessage } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  Transport,
+  ProtocolMessage,
+  TransportError,
+  ConnectionAuthenticator,
+  AuthenticatedPrincipal,
+  RequestHeaders
+} from '../core/types.js';
 
 /**
  * WebSocket transport implementation for real-time memory protocol communication
@@ -8,6 +16,7 @@ import { Transport, ProtocolMessage, TransportError } from '../core/types.js';
  */
 export class WebSocketTransport extends EventEmitter implements Transport {
   public readonly name = 'websocket';
+  public readonly streaming = true;
   
   private ws: WebSocket | null = null;
   private url: string;
@@ -244,11 +253,14 @@ export class WebSocketTransport extends EventEmitter implements Transport {
  */
 export class WebSocketServerTransport extends EventEmitter implements Transport {
   public readonly name = 'websocket-server';
+  public readonly streaming = true;
   
-  private server: WebSocket.Server | null = null;
+  private server: WebSocketServer | null = null;
   private clients: Map<string, WebSocket> = new Map();
   private port: number;
   private connected = false;
+  private authenticator: ConnectionAuthenticator | null = null;
+  private principals: WeakMap<IncomingMessage, AuthenticatedPrincipal> = new WeakMap(); // Set during the upgrade
 
   constructor(port: number, options: {
     maxClients?: number;
@@ -258,6 +270,13 @@ export class WebSocketServerTransport extends EventEmitter implements Transport
     this.port = port;
   }
 
+  /**
+   * Check the credentials of connecting clients; invalid credentials fail the upgrade with 401
+   */
+  setAuthenticator(authenticator: ConnectionAuthenticator): void {
+    this.authenticator = authenticator;
+  }
+
   async connect(): Promise<void> {
     if (this.connected) {
       return;
@@ -265,16 +284,17 @@ export class WebSocketServerTransport extends EventEmitter implements Transport
 
     return new Promise((resolve, reject) => {
       try {
-        this.server = new WebSocket.Server({ 
+        this.server = new WebSocketServer({ 
           port: this.port,
-          perMessageDeflate: true
+          perMessageDeflate: true,
+          verifyClient: (info, callback) => this.verifyClient(info.req, callback)
         });
 
-        this.server.on('connection', (ws: WebSocket, request) => {
+        this.server.on('connection', (ws: WebSocket, request: IncomingMessage) => {
           const clientId = this.generateClientId();
           this.clients.set(clientId, ws);
           
-          this.emit('clientConnected', { clientId, request });
+          this.emit('clientConnected', { clientId, request, principal: this.principals.get(request) });
 
           ws.on('message', (data: WebSocket.Data) => {
             try {
@@ -368,7 +388,12 @@ export class WebSocketServerTransport extends EventEmitter implements Transport
         throw new TransportError(`Client not found: ${clientId}`);
       }
       
-      client.send(serialized);
+      // Resolve once the message is handed to the socket, so streaming senders feel backpressure
+      await new Promise<void>((resolve, reject) => {
+        client.send(serialized, (error?: Error) => error
+          ? reject(new TransportError(`Failed to send to client ${clientId}: ${error.message}`, { clientId, error }))
+          : resolve());
+      });
     } else {
       // Broadcast to all clients
       for (const client of this.clients.values()) {
@@ -393,6 +418,41 @@ export class WebSocketServerTransport extends EventEmitter implements Transport
     return Array.from(this.clients.keys());
   }
 
+  private verifyClient(
+    request: IncomingMessage,
+    callback: (result: boolean, code?: number, message?: string) => void
+  ): void {
+    if (!this.authenticator) {
+      callback(true);
+      return;
+    }
+
+    this.authenticator(this.connectionHeaders(request)).then(
+      (principal) => {
+        if (principal) {
+          this.principals.set(request, principal);
+        }
+        callback(true);
+      },
+      (error: any) => {
+        this.emit('authenticationFailed', { error });
+        callback(false, 401, error.message);
+      }
+    );
+  }
+
+  // Browsers cannot set headers on a WebSocket, so a token may come as ?access_token=
+  private connectionHeaders(request: IncomingMessage): RequestHeaders {
+    const headers: RequestHeaders = { ...request.headers };
+    if (!headers.authorization) {
+      const token = new URL(request.url || '/', 'ws://localhost').searchParams.get('access_token');
+      if (token) {
+        headers.authorization = `Bearer ${token}`;
+      }
+    }
+    return headers;
+  }
+
   private generateClientId(): string {
     return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }